@@ -23,7 +23,7 @@ if (!fs.existsSync(distDir)) {
 
 // Compile scripts
 console.log("Compiling scripts...");
-for (const file of ["background.ts", "content-script.ts", "api/auth.ts", "api/new-prompt.ts"]) {
+for (const file of ["background.ts", "content-script.ts", "api/auth.ts", "api/makersuite-client.ts", "api/new-prompt.ts", "api/snippet-parser.ts", "api/prompt-template.ts", "api/prompt-library.ts"]) {
     const outputDir = path.resolve(distDir, path.dirname(file));
     const filePath = path.resolve(sourceDir, "src", file);
     exec(
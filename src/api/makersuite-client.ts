@@ -0,0 +1,595 @@
+/**
+ * Client for AI Studio's MakerSuite RPC API, which the page itself uses to create and load prompts.
+ *
+ * Requests and responses are JSON+protobuf: messages are arrays indexed by field number - 1. The request and
+ * response of each method are listed in `MakerSuiteMethods`; add a method there before calling it.
+ *
+ * @file makersuite-client.ts
+ */
+// import { getAuthTokens } from "./auth";
+// The import is replaced with direct function reference that's globally available
+(function () {
+    /**
+     * A prompt in the MakerSuite format ([0] is the "prompts/..." name, [3] the run settings, [13] the turns).
+     */
+    type MakerSuitePrompt = any[];
+
+    /**
+     * Request and response messages of the MakerSuite RPC methods, by method name.
+     */
+    interface MakerSuiteMethods {
+        CreatePrompt: { request: MakerSuitePrompt; response: MakerSuitePrompt };
+        GetPrompt: { request: [name: string]; response: MakerSuitePrompt };
+        /**
+         * Assumed, not confirmed, to follow the usual layout of list methods (page_size and page_token, then the
+         * items and next_page_token).
+         */
+        ListPrompts: {
+            request: [pageSize: number, pageToken: string | null];
+            response: [prompts?: MakerSuitePrompt[], nextPageToken?: string];
+        };
+        /** Each model starts with its "models/..." name. */
+        ListModels: { request: []; response: [models: any[][]] };
+        /** Each incident is [id, [[status, timestamp, message], ...], ...]. */
+        ListIncidentsHistory: { request: []; response: [incidents: any[][]] };
+    }
+
+    type MakerSuiteMethod = keyof MakerSuiteMethods;
+
+    /**
+     * The error of a failed RPC, as sent by the server (google.rpc.Status).
+     */
+    interface RpcStatus {
+        /** The google.rpc.Code, e.g. 3 for INVALID_ARGUMENT or 7 for PERMISSION_DENIED. */
+        code: number;
+        message: string;
+        details: any[];
+    }
+
+    /**
+     * How an RPC attempt failed: "http" for error responses, "auth" if the user is signed out or the server did not
+     * accept the authorization header (401 UNAUTHENTICATED), "network" if no response was received, "timeout" if
+     * the request took longer than its timeout, "aborted" if its signal was aborted and "setup" if the page has no
+     * API URL or API keys to send the request with.
+     */
+    type RpcFailure = "http" | "auth" | "network" | "timeout" | "aborted" | "setup";
+
+    interface RpcErrorDetails {
+        /** The RPC method, e.g. "CreatePrompt". */
+        method: string;
+        failure: RpcFailure;
+        /** The HTTP status of the last attempt, or 0 if no response was received. */
+        status?: number;
+        /** The error sent by the server, if the response had one. */
+        rpcStatus?: RpcStatus | null;
+        /** The index of the API key used by the last attempt, or null if no request was sent. */
+        keyIndex?: number | null;
+        /** How long the server asked to wait before retrying (Retry-After), in milliseconds. */
+        retryAfterMs?: number | null;
+    }
+
+    /**
+     * Options of a single MakerSuite RPC.
+     */
+    interface RpcOptions {
+        /** Aborts the request, including retries that are waiting. */
+        signal?: AbortSignal;
+        /** Timeout of each attempt, in milliseconds. */
+        timeoutMs?: number;
+        /**
+         * How many times transient failures (429, 5xx, network errors and timeouts) are retried. Methods that
+         * are not idempotent, such as CreatePrompt, only retry failures where the request was not processed.
+         */
+        maxRetries?: number;
+    }
+
+    /**
+     * Thrown (as a rejection) when a MakerSuite RPC fails.
+     */
+    class MakerSuiteRpcError extends Error {
+        readonly method: string;
+        readonly failure: RpcFailure;
+        readonly status: number;
+        readonly rpcStatus: RpcStatus | null;
+        readonly keyIndex: number | null;
+        readonly retryAfterMs: number | null;
+
+        /**
+         * @param {string} reason - What went wrong, used in the message when the server sent no error.
+         * @param {RpcErrorDetails} details - The method, the failed attempt and the server's error.
+         */
+        constructor(reason: string, details: RpcErrorDetails) {
+            const status = details.status ?? 0;
+            const keyIndex = details.keyIndex ?? null;
+            super(
+                `${details.method} failed` +
+                    (status ? ` with HTTP ${status}` : "") +
+                    `: ${details.rpcStatus?.message || reason}` +
+                    (keyIndex !== null ? ` (API key ${keyIndex + 1})` : "")
+            );
+            this.name = "MakerSuiteRpcError";
+            this.method = details.method;
+            this.failure = details.failure;
+            this.status = status;
+            this.rpcStatus = details.rpcStatus ?? null;
+            this.keyIndex = keyIndex;
+            this.retryAfterMs = details.retryAfterMs ?? null;
+        }
+    }
+
+    interface RpcResponse {
+        text: string;
+        status: number;
+        /** The index of the API key that succeeded. */
+        keyIndex: number;
+    }
+
+    const DEFAULT_TIMEOUT_MS = 30000;
+    const DEFAULT_MAX_RETRIES = 3;
+    // Backoff before the n-th retry is a random delay of up to BACKOFF_BASE_MS * 2^n, capped at BACKOFF_MAX_MS
+    const BACKOFF_BASE_MS = 500;
+    const BACKOFF_MAX_MS = 8000;
+    // HTTP statuses and google.rpc.Codes (RESOURCE_EXHAUSTED, UNAVAILABLE, DEADLINE_EXCEEDED) worth retrying
+    const TRANSIENT_HTTP_STATUSES = [408, 429, 500, 502, 503, 504];
+    const TRANSIENT_RPC_CODES = [4, 8, 14];
+    // Methods that must not run twice, e.g. CreatePrompt would create a duplicate prompt
+    const NON_IDEMPOTENT_METHODS = ["CreatePrompt"];
+    // HTTP statuses and google.rpc.Codes (RESOURCE_EXHAUSTED) that mean the request was rejected before it was processed
+    const UNPROCESSED_HTTP_STATUSES = [429, 503];
+    const UNPROCESSED_RPC_CODES = [8];
+    // google.rpc.Code of requests without valid credentials
+    const UNAUTHENTICATED_RPC_CODE = 16;
+    // How many times a request rejected as unauthenticated is sent again with a new authorization header
+    const MAX_AUTH_RETRIES = 1;
+
+    // Cache for API keys and tracking successful key
+    let cachedUrl: string | null = null;
+    let cachedApiKeys: string[] | null = null;
+    let lastSuccessfulKey: string | null = null;
+    // Keys the server rejected (e.g. API_KEY_INVALID), skipped when the keys are loaded again
+    const rejectedApiKeys = new Set<string>();
+
+    /**
+     * Calls a MakerSuite RPC method.
+     *
+     * @param {M} method - The RPC method, e.g. "CreatePrompt".
+     * @param {MakerSuiteMethods[M]["request"]} request - The request message.
+     * @param {RpcOptions} options - Abort signal, timeout and retries.
+     * @returns {Promise<MakerSuiteMethods[M]["response"]>} The response message. Rejects with a `MakerSuiteRpcError`.
+     */
+    async function callMakerSuite<M extends MakerSuiteMethod>(
+        method: M,
+        request: MakerSuiteMethods[M]["request"],
+        options: RpcOptions = {}
+    ): Promise<MakerSuiteMethods[M]["response"]> {
+        const response = await sendRpc(method, "POST", request, options);
+        try {
+            return JSON.parse(response.text);
+        } catch (e) {
+            throw new MakerSuiteRpcError("The response is not valid JSON", {
+                method,
+                failure: "http",
+                status: response.status,
+                keyIndex: response.keyIndex,
+            });
+        }
+    }
+
+    /**
+     * Sends a MakerSuite RPC request and returns the raw response. Prefer `callMakerSuite`, which is typed.
+     *
+     * @param {string} path - The RPC method, e.g. "CreatePrompt".
+     * @param {string} method - The HTTP method.
+     * @param {any} data - The request message.
+     * @param {RpcOptions} options - Abort signal, timeout and retries.
+     * @returns {Promise<string>} The response text. Rejects with a `MakerSuiteRpcError`.
+     */
+    async function sendMakerSuiteRequest(path: string, method: string, data: any, options: RpcOptions = {}): Promise<string> {
+        return (await sendRpc(path, method, data, options)).text;
+    }
+
+    /**
+     * Sends a MakerSuite RPC request. Transient failures are retried with the same API key after a backoff, and
+     * the next API key of the page is only tried when the server rejects the key itself. The authorization header
+     * is generated again for every attempt, since its hash is timestamped.
+     *
+     * @param {string} path - The RPC method, e.g. "CreatePrompt".
+     * @param {string} method - The HTTP method.
+     * @param {any} data - The request message.
+     * @param {RpcOptions} options - Abort signal, timeout and retries.
+     * @returns {Promise<RpcResponse>} The response of the first successful attempt.
+     */
+    async function sendRpc(path: string, method: string, data: any, options: RpcOptions): Promise<RpcResponse> {
+        const { signal } = options;
+        const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+        const idempotent = !NON_IDEMPOTENT_METHODS.includes(path);
+        const fail = (reason: string) => new MakerSuiteRpcError(reason, { method: path, failure: "setup" });
+
+        let url: string;
+        try {
+            url = `${findUrl()}/$rpc/google.internal.alkali.applications.makersuite.v1.MakerSuiteService/${path}`;
+        } catch (e) {
+            throw fail("No API URL found");
+        }
+
+        const body = JSON.stringify(data);
+        // Send the request as the account the page is signed in with, even if it navigates meanwhile
+        const authUser = getAuthUser() ?? "0";
+
+        // Check if the required functions are available
+        if (typeof (window as any).aiStudioExt.getAuthTokens !== "function") throw fail("getAuthTokens is not a function");
+
+        // Use cached API keys if available, otherwise fetch them
+        if (!cachedApiKeys) {
+            cachedApiKeys = findApiKeys([...rejectedApiKeys]);
+            console.log(`Loaded ${cachedApiKeys.length} API keys`);
+        }
+
+        if (cachedApiKeys.length === 0) throw fail("No API keys found");
+
+        // If we have a successful key, try it first
+        let keys = [...cachedApiKeys];
+        if (lastSuccessfulKey && cachedApiKeys.includes(lastSuccessfulKey)) {
+            // Move successful key to front of array
+            keys = [lastSuccessfulKey, ...cachedApiKeys.filter((key) => key !== lastSuccessfulKey)];
+        }
+
+        let keyIndex = 0;
+        let retries = 0;
+        let authRetries = 0;
+        let reloadedKeys = false;
+        let lastError: MakerSuiteRpcError | null = null;
+        while (keyIndex < keys.length) {
+            const currentKey = keys[keyIndex];
+            // Without the SAPISID cookies there is no session to send the request with
+            const authTokens = (window as any).aiStudioExt.getAuthTokens([]);
+            if (!authTokens) {
+                throw new MakerSuiteRpcError("Not signed in to a Google account", { method: path, failure: "auth" });
+            }
+            try {
+                const response = await sendAttempt(path, method, url, body, authTokens, authUser, currentKey, keyIndex, options);
+                // Store the successful key
+                lastSuccessfulKey = currentKey;
+                return response;
+            } catch (error) {
+                if (!(error instanceof MakerSuiteRpcError) || error.failure === "aborted") throw error;
+                lastError = error;
+
+                if (error.failure === "auth") {
+                    // A stale hash is fixed by a new one; a signed out session is not
+                    if (authRetries >= MAX_AUTH_RETRIES) throw error;
+                    authRetries++;
+                    console.warn(`${path} was not authenticated, retrying with a new authorization header...`);
+                    continue;
+                }
+                if (isTransientFailure(error, idempotent)) {
+                    // A server asking to wait longer than the backoff cap fails right away, with its retryAfterMs
+                    if (retries >= maxRetries || (error.retryAfterMs ?? 0) > BACKOFF_MAX_MS) throw error;
+                    const delay = getBackoffDelay(retries++, error.retryAfterMs);
+                    console.warn(`${path} failed (${error.message}), retrying in ${Math.round(delay)} ms...`);
+                    await sleep(delay, signal, path);
+                    continue;
+                }
+                if (!isKeyFailure(error)) throw error;
+
+                // The key itself was rejected: forget it and try the next one
+                console.warn(`API key ${keyIndex + 1}/${keys.length} was rejected:`, error.message);
+                rejectedApiKeys.add(currentKey);
+                cachedApiKeys = cachedApiKeys.filter((key) => key !== currentKey);
+                if (currentKey === lastSuccessfulKey) lastSuccessfulKey = null;
+                keyIndex++;
+
+                // Once every key was rejected, look for keys the page loaded since
+                if (keyIndex >= keys.length && !reloadedKeys) {
+                    reloadedKeys = true;
+                    console.warn("All API keys were rejected, refreshing API keys...");
+                    cachedApiKeys = findApiKeys([...rejectedApiKeys]);
+                    keys = [...cachedApiKeys];
+                    keyIndex = 0;
+                }
+            }
+        }
+        throw lastError ?? fail("No API keys found");
+    }
+
+    /**
+     * Sends one attempt of an RPC request with one API key.
+     *
+     * @param {string} path - The RPC method, e.g. "CreatePrompt".
+     * @param {string} method - The HTTP method.
+     * @param {string} url - The URL of the RPC method.
+     * @param {string} body - The request message, as JSON.
+     * @param {string} authTokens - The authorization header.
+     * @param {string} authUser - The index of the signed in Google account to use.
+     * @param {string} key - The API key.
+     * @param {number} keyIndex - The index of the API key, reported in errors.
+     * @param {RpcOptions} options - Abort signal and timeout.
+     * @returns {Promise<RpcResponse>} The response. Rejects with a `MakerSuiteRpcError` for any non-2xx response.
+     */
+    function sendAttempt(
+        path: string,
+        method: string,
+        url: string,
+        body: string,
+        authTokens: string,
+        authUser: string,
+        key: string,
+        keyIndex: number,
+        options: RpcOptions
+    ): Promise<RpcResponse> {
+        const { signal } = options;
+        const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new MakerSuiteRpcError("The request was aborted", { method: path, failure: "aborted", keyIndex }));
+                return;
+            }
+
+            const xhr = new XMLHttpRequest();
+            xhr.open(method, url, true);
+            xhr.timeout = timeoutMs;
+
+            // Set headers
+            xhr.setRequestHeader("authorization", authTokens);
+            xhr.setRequestHeader("x-goog-authuser", authUser);
+            xhr.setRequestHeader("content-type", "application/json+protobuf");
+            xhr.setRequestHeader("x-goog-api-key", key);
+            xhr.setRequestHeader("x-user-agent", "grpc-web-javascript/0.1");
+
+            const onAbort = () => xhr.abort();
+            signal?.addEventListener("abort", onAbort);
+            const settle = (error: MakerSuiteRpcError | null) => {
+                signal?.removeEventListener("abort", onAbort);
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve({ text: xhr.responseText, status: xhr.status, keyIndex });
+                }
+            };
+
+            // Handle response
+            xhr.onload = function () {
+                if (xhr.status >= 200 && xhr.status < 300) {
+                    console.debug("Success:", xhr.responseText);
+                    settle(null);
+                    return;
+                }
+                console.warn(`Error with API key ${keyIndex + 1}:`, xhr.status, xhr.statusText);
+                const rpcStatus = parseRpcStatus(xhr.responseText) ?? readGrpcStatusHeaders(xhr);
+                const unauthenticated = xhr.status === 401 || rpcStatus?.code === UNAUTHENTICATED_RPC_CODE;
+                settle(
+                    new MakerSuiteRpcError(xhr.statusText || "Request failed", {
+                        method: path,
+                        failure: unauthenticated ? "auth" : "http",
+                        status: xhr.status,
+                        rpcStatus,
+                        keyIndex,
+                        retryAfterMs: readRetryAfter(xhr),
+                    })
+                );
+            };
+            xhr.onerror = () => settle(new MakerSuiteRpcError("Network error", { method: path, failure: "network", keyIndex }));
+            xhr.ontimeout = () =>
+                settle(new MakerSuiteRpcError(`Timed out after ${timeoutMs} ms`, { method: path, failure: "timeout", keyIndex }));
+            xhr.onabort = () =>
+                settle(new MakerSuiteRpcError("The request was aborted", { method: path, failure: "aborted", keyIndex }));
+
+            // Send the request
+            xhr.withCredentials = true; //Include cookies, use this when you need to authenticate
+            xhr.send(body);
+        });
+    }
+
+    /**
+     * Checks whether a failed attempt is worth retrying with the same API key: network errors, timeouts,
+     * rate limits and server errors. Requests that are not idempotent are only retried when the server
+     * rejected them without processing them, since a timeout or server error may come after the work was done.
+     *
+     * @param {MakerSuiteRpcError} error - The error of the attempt.
+     * @param {boolean} idempotent - Whether the request can safely be sent again.
+     * @returns {boolean} True if the attempt should be retried after a backoff.
+     */
+    function isTransientFailure(error: MakerSuiteRpcError, idempotent: boolean): boolean {
+        if (!idempotent) {
+            if (UNPROCESSED_HTTP_STATUSES.includes(error.status)) return true;
+            return error.rpcStatus !== null && UNPROCESSED_RPC_CODES.includes(error.rpcStatus.code);
+        }
+        if (error.failure === "network" || error.failure === "timeout") return true;
+        if (TRANSIENT_HTTP_STATUSES.includes(error.status)) return true;
+        return error.rpcStatus !== null && TRANSIENT_RPC_CODES.includes(error.rpcStatus.code);
+    }
+
+    /**
+     * Checks whether a failed attempt was caused by the API key (invalid, expired or restricted), so that the
+     * next key should be tried. 403 responses without an error body are treated as key failures too.
+     *
+     * @param {MakerSuiteRpcError} error - The error of the attempt.
+     * @returns {boolean} True if the key was rejected.
+     */
+    function isKeyFailure(error: MakerSuiteRpcError): boolean {
+        if (error.status !== 400 && error.status !== 403) return false;
+        if (!error.rpcStatus) return error.status === 403;
+        // e.g. "API key not valid" with an ErrorInfo detail whose reason is API_KEY_INVALID or API_KEY_SERVICE_BLOCKED
+        return /API[_ ]key/i.test(error.rpcStatus.message + " " + JSON.stringify(error.rpcStatus.details));
+    }
+
+    /**
+     * Computes the delay before a retry: exponential backoff with full jitter, or longer if the server asked for it.
+     * The delay never exceeds BACKOFF_MAX_MS.
+     *
+     * @param {number} retry - The number of retries so far.
+     * @param {number | null} retryAfterMs - The delay asked for by the server, if any.
+     * @returns {number} The delay in milliseconds.
+     */
+    function getBackoffDelay(retry: number, retryAfterMs: number | null): number {
+        const delay = Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** retry);
+        return Math.min(BACKOFF_MAX_MS, Math.max(delay, retryAfterMs ?? 0));
+    }
+
+    /**
+     * Waits before a retry.
+     *
+     * @param {number} ms - The delay in milliseconds.
+     * @param {AbortSignal | undefined} signal - Rejects the wait when aborted.
+     * @param {string} path - The RPC method, reported if the wait is aborted.
+     * @returns {Promise<void>} Resolves after the delay.
+     */
+    function sleep(ms: number, signal: AbortSignal | undefined, path: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const aborted = () => new MakerSuiteRpcError("The request was aborted", { method: path, failure: "aborted" });
+            if (signal?.aborted) {
+                reject(aborted());
+                return;
+            }
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(aborted());
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener("abort", onAbort, { once: true });
+        });
+    }
+
+    /**
+     * Reads the Retry-After header of a failed response.
+     *
+     * @param {XMLHttpRequest} xhr - The completed request.
+     * @returns {number | null} The delay in milliseconds, or null if the header is missing.
+     */
+    function readRetryAfter(xhr: XMLHttpRequest): number | null {
+        const header = xhr.getResponseHeader("retry-after");
+        if (!header) return null;
+        const seconds = Number(header);
+        if (!isNaN(seconds)) return seconds * 1000;
+        const date = Date.parse(header);
+        return isNaN(date) ? null : Math.max(0, date - Date.now());
+    }
+
+    /**
+     * Reads the google.rpc.Status of a failed response. JSON+protobuf errors are sent as [code, message, details],
+     * other errors as { error: { code, message, details } }.
+     *
+     * @param {string} responseText - The body of the failed response.
+     * @returns {RpcStatus | null} The status, or null if the body has none.
+     */
+    function parseRpcStatus(responseText: string): RpcStatus | null {
+        let body: any;
+        try {
+            body = JSON.parse(responseText);
+        } catch (e) {
+            return null;
+        }
+
+        if (Array.isArray(body) && typeof body[0] === "number") {
+            return {
+                code: body[0],
+                message: typeof body[1] === "string" ? body[1] : "",
+                details: Array.isArray(body[2]) ? body[2] : [],
+            };
+        }
+        const error = body?.error;
+        if (error != null && typeof error === "object") {
+            return {
+                code: typeof error.code === "number" ? error.code : 0,
+                message: typeof error.message === "string" ? error.message : "",
+                details: Array.isArray(error.details) ? error.details : [],
+            };
+        }
+        return null;
+    }
+
+    /**
+     * Reads the google.rpc.Status from the grpc-status and grpc-message headers of a failed response.
+     *
+     * @param {XMLHttpRequest} xhr - The completed request.
+     * @returns {RpcStatus | null} The status, or null if the headers are missing.
+     */
+    function readGrpcStatusHeaders(xhr: XMLHttpRequest): RpcStatus | null {
+        const code = Number(xhr.getResponseHeader("grpc-status"));
+        if (!code) return null;
+        return { code, message: decodeURIComponent(xhr.getResponseHeader("grpc-message") ?? ""), details: [] };
+    }
+
+    /**
+     * Gets the signed in Google account AI Studio is using, from the "/u/N/" prefix of the page's path or its
+     * "authuser" query parameter.
+     *
+     * @returns {string | null} The index of the account, or null if the page uses the default account.
+     */
+    function getAuthUser(): string | null {
+        const match = location.pathname.match(/^\/u\/(\d+)(\/|$)/);
+        if (match) return match[1];
+        const param = new URLSearchParams(location.search).get("authuser");
+        return param && /^\d+$/.test(param) ? param : null;
+    }
+
+    /**
+     * Gets the path of a page of AI Studio for the account the page is using, e.g. "/u/1/prompts/abc".
+     *
+     * @param {string} path - The path for the default account, with or without a leading slash (e.g. "prompts/abc").
+     * @returns {string} The absolute path, with the "/u/N" prefix of the account if it is not the default one.
+     */
+    function getAccountPath(path: string): string {
+        const authUser = getAuthUser();
+        const absolutePath = "/" + path.replace(/^\//, "");
+        return authUser !== null ? `/u/${authUser}${absolutePath}` : absolutePath;
+    }
+
+    /**
+     * Finds all API keys in the script tags of the current document.
+     *
+     * @param {string[]} ignore - Array of API keys to ignore (e.g., failed keys)
+     * @returns {string[]} An array of API keys found in the script tags.
+     */
+    function findApiKeys(ignore: string[] = []): string[] {
+        const scripts = document.querySelectorAll("script");
+        const apiKeys = new Set<string>();
+        for (const script of scripts as unknown as HTMLScriptElement[]) {
+            const src = script.innerHTML;
+            const match = src.match(/[`'"](AIzaSy([^\s`'"]*))[`'"]/g) ?? [];
+            match.forEach((m) => {
+                const key = m.replace(/[`'"]/g, "");
+                if (!ignore.includes(key)) {
+                    apiKeys.add(key);
+                }
+            });
+        }
+        return Array.from(apiKeys).reverse(); // Seems like the last key is the one that works usually
+    }
+
+    /**
+     * Finds the URL of the MakerSuite API in the script tags of the current document.
+     *
+     * @returns {string} The URL of the MakerSuite API.
+     */
+    function findUrl(): string {
+        if (cachedUrl) return cachedUrl;
+        const scripts = document.querySelectorAll("script");
+        for (const script of scripts as unknown as HTMLScriptElement[]) {
+            const src = script.innerHTML;
+            const match = src.match(/[`'"](https\:\/\/alkalimakersuite[^`'"]*\.google\.com)[`'"]/g);
+            if (match) {
+                cachedUrl = match[0].replace(/[`'"]/g, "");
+                return cachedUrl;
+            }
+        }
+        throw new Error("No API URL found");
+    }
+
+    // Make commands available globally
+    (window as any).aiStudioExt ??= {};
+    Object.assign((window as any).aiStudioExt, {
+        callMakerSuite,
+        sendMakerSuiteRequest,
+        MakerSuiteRpcError,
+        getAuthUser,
+        getAccountPath,
+        findUrl,
+        findApiKeys,
+    });
+    console.debug("makersuite-client.ts loaded");
+})();
@@ -1,187 +1,317 @@
-// import { getAuthTokens } from "./auth";
-// The import is replaced with direct function reference that's globally available
 (function () {
-    // Cache for API keys and tracking successful key
-    let cachedUrl: string | null = null;
-    let cachedApiKeys: string[] | null = null;
-    let lastSuccessfulKey: string | null = null;
-
-    function sendMakerSuiteRequest(path: string, method: string, data: any): Promise<string> {
-        const url = `${findUrl()}/$rpc/google.internal.alkali.applications.makersuite.v1.MakerSuiteService/${path}`;
-        const async = true;
+    /**
+     * Calls a MakerSuite RPC method with the client of makersuite-client.ts, which is loaded before this script.
+     *
+     * @param {string} method - The RPC method, e.g. "CreatePrompt".
+     * @param {any} request - The request message.
+     * @param {AbortSignal} signal - Aborts the request.
+     * @returns {Promise<any>} The response message. Rejects with a `MakerSuiteRpcError`.
+     */
+    function callMakerSuite(method: string, request: any, signal?: AbortSignal): Promise<any> {
+        return (window as any).aiStudioExt.callMakerSuite(method, request, { signal });
+    }
 
-        data = JSON.stringify(data);
+    /**
+     * Creates a prompt using the MakerSuite API.
+     *
+     * @param {string} promptName - The name of the prompt.
+     * @param {any} promptData - The prompt data in any of the supported formats.
+     * @param {ConvertOptions} options - Conversion options, such as the format of the prompt data.
+     * @returns {Promise<any[]>} The created prompt in the MakerSuite format; [0] is its "prompts/..." name.
+     */
+    function createMakerSuitePrompt(
+        promptName: string,
+        promptData: any,
+        options: ConvertOptions = {}
+    ): Promise<any[]> {
+        return callMakerSuite("CreatePrompt", convertPromptData(promptName, promptData, options));
+    }
 
-        // Check if the required functions are available
-        if (typeof (window as any).aiStudioExt.getAuthTokens !== "function") throw new Error("getAuthTokens is not a function");
-        //if (typeof (window as any).aiStudioExt.findApiKeys !== "function") throw new Error("findApiKeys is not a function");
-        // Get the auth tokens and API keys
-        const authTokens = (window as any).aiStudioExt.getAuthTokens([]);
-        if (!authTokens) throw new Error("No auth tokens found");
+    /**
+     * Loads the models that can be run in AI Studio, used to check the model of imported prompts.
+     * Until the list is loaded, or if it cannot be loaded, a bundled list of models is used instead.
+     *
+     * @returns {Promise<string[]>} The names of the available models, without the "models/" prefix.
+     */
+    function loadAvailableModels(): Promise<string[]> {
+        availableModelsRequest ??= callMakerSuite("ListModels", [])
+            .then((response: any[]) => {
+                if (!isListModelsResponse(response)) {
+                    console.debug("Unexpected ListModels response:", response);
+                    throw new Error("The ListModels response does not have the expected layout");
+                }
+                const models: string[] = [];
+                for (const model of response[0]) {
+                    models.push(model[0].slice("models/".length));
+                }
+                availableModels = models;
+                return models;
+            })
+            .catch((e: any) => {
+                console.warn("Failed to load the available models, using the bundled list:", e);
+                availableModelsRequest = null;
+                return FALLBACK_MODELS;
+            });
+        return availableModelsRequest;
+    }
 
-        // Use cached API keys if available, otherwise fetch them
-        if (!cachedApiKeys) {
-            cachedApiKeys = findApiKeys();
-            console.log(`Loaded ${cachedApiKeys.length} API keys`);
+    /**
+     * Checks a ListModels response against the expected layout: a non-empty list of models, each starting with
+     * its "models/..." name.
+     *
+     * @param {any} response - The response message.
+     * @returns {boolean} Whether the response has the expected layout.
+     */
+    function isListModelsResponse(response: any): boolean {
+        if (!Array.isArray(response) || !Array.isArray(response[0]) || response[0].length === 0) return false;
+        for (const model of response[0]) {
+            if (typeof model?.[0] !== "string" || !model[0].startsWith("models/")) return false;
         }
+        return true;
+    }
 
-        if (cachedApiKeys.length === 0) throw new Error("No API keys found");
-
-        // If we have a successful key, try it first
-        let keysToTry = [...cachedApiKeys];
-        if (lastSuccessfulKey && cachedApiKeys.includes(lastSuccessfulKey)) {
-            // Move successful key to front of array
-            keysToTry = [lastSuccessfulKey, ...cachedApiKeys.filter((key) => key !== lastSuccessfulKey)];
-        }
+    /**
+     * Fetches a saved prompt using the MakerSuite API.
+     *
+     * @param {string} promptId - The ID of the prompt (the last segment of the prompt's URL).
+     * @param {AbortSignal} signal - Aborts the request.
+     * @returns {Promise<any[]>} The prompt in the MakerSuite format.
+     */
+    async function fetchMakerSuitePrompt(promptId: string, signal?: AbortSignal): Promise<any[]> {
+        return callMakerSuite("GetPrompt", [`prompts/${promptId}`], signal);
+    }
 
-        return new Promise((resolve, reject) => {
-            // Try each API key until success or all keys are exhausted
-            attemptRequestWithKeys(0, keysToTry, resolve, reject);
-        });
+    /**
+     * Models available in AI Studio, used to check model names until the list is loaded with `loadAvailableModels`.
+     */
+    const FALLBACK_MODELS = [
+        "gemini-2.5-pro",
+        "gemini-2.5-flash",
+        "gemini-2.5-flash-lite",
+        "gemini-2.5-flash-image",
+        "gemini-2.0-flash",
+        "gemini-2.0-flash-001",
+        "gemini-2.0-flash-lite",
+        "gemini-2.0-flash-lite-001",
+        "gemini-pro-latest",
+        "gemini-flash-latest",
+        "gemini-flash-lite-latest",
+        "gemma-3-1b-it",
+        "gemma-3-4b-it",
+        "gemma-3-12b-it",
+        "gemma-3-27b-it",
+        "gemma-3n-e2b-it",
+        "gemma-3n-e4b-it",
+    ];
 
-        /**
-         * Attempts to make the API request with a specific API key index.
-         * If the request fails, it retries with the next available key.
-         *
-         * @param {number} keyIndex - The index of the API key to use
-         * @param {string[]} keys - The array of API keys to try
-         */
-        function attemptRequestWithKeys(keyIndex: number, keys: string[], onSuccess: (responseText: string) => void, onError: (status: number | string, statusText: string | null) => void): void {
-            // If we've tried all keys, report error
-            if (keyIndex >= keys.length) {
-                if (onError) {
-                    onError("All API keys failed", "Unable to create prompt after trying all available API keys");
-                }
-                return;
-            }
-
-            const currentKey = keys[keyIndex];
-            var xhr = new XMLHttpRequest();
-            xhr.open(method, url, async);
-
-            // Set headers
-            xhr.setRequestHeader("authorization", authTokens);
-            xhr.setRequestHeader("content-type", "application/json+protobuf");
-            xhr.setRequestHeader("x-goog-api-key", currentKey);
-            xhr.setRequestHeader("x-user-agent", "grpc-web-javascript/0.1");
-
-            // Handle response
-            xhr.onload = function () {
-                if (xhr.status >= 200 && xhr.status < 300) {
-                    console.debug("Success:", xhr.responseText);
-                    // Store the successful key
-                    lastSuccessfulKey = currentKey;
-                    if (onSuccess) {
-                        onSuccess(xhr.responseText);
-                    }
-                } else {
-                    console.warn(`Error with API key ${keyIndex + 1}/${keys.length}:`, xhr.status, xhr.statusText);
-
-                    // If this was our last successful key that failed, refresh keys
-                    if (currentKey === lastSuccessfulKey) {
-                        console.warn("Previously successful key failed, refreshing API keys...");
-                        cachedApiKeys = findApiKeys([currentKey]); // Ignore the failed key
-                        lastSuccessfulKey = null;
-
-                        // If we have new keys, try those
-                        if (cachedApiKeys.length > 0) {
-                            attemptRequestWithKeys(0, cachedApiKeys, onSuccess, onError);
-                            return;
-                        }
-                    }
+    // Models that were shut down, so prompts using them cannot be run
+    const RETIRED_MODEL_PATTERNS = [
+        /^gemini-1\.[05]-/,
+        /^gemini-pro(-vision)?$/,
+        /^(text|chat)-bison/,
+        /^gemini-exp-/,
+        /^gemini-2\.0-(pro|flash-thinking)-exp/,
+    ];
 
-                    // Try the next key
-                    attemptRequestWithKeys(keyIndex + 1, keys, onSuccess, onError);
-                }
-            };
+    // Model names of other vendors (or of retired models) and the Gemini model to use instead. See registerModelAliases.
+    const DEFAULT_MODEL_ALIASES: { [model: string]: string } = {
+        "gpt-4o": "gemini-2.0-flash",
+        "gpt-4o-mini": "gemini-2.0-flash-lite",
+        "gpt-4.1": "gemini-2.5-pro",
+        "gpt-4.1-mini": "gemini-2.5-flash",
+        "gpt-4.1-nano": "gemini-2.5-flash-lite",
+        "o3": "gemini-2.5-pro",
+        "o4-mini": "gemini-2.5-flash",
+    };
 
-            xhr.onerror = function () {
-                console.warn(`Request failed with API key ${keyIndex + 1}/${keys.length}`);
+    // The key of the model alias table in chrome.storage.local, where it is kept once it is changed
+    const MODEL_ALIASES_STORAGE_KEY = "modelAliases";
 
-                // If this was our last successful key that failed, refresh keys
-                if (currentKey === lastSuccessfulKey) {
-                    console.warn("Previously successful key failed, refreshing API keys...");
-                    cachedApiKeys = findApiKeys([currentKey]); // Ignore the failed key
-                    lastSuccessfulKey = null;
+    // The model alias table in use. It has no prototype, so model names such as "constructor" are not aliased.
+    let modelAliases = createModelAliasTable(DEFAULT_MODEL_ALIASES);
+    let modelAliasesRequest: Promise<void> | null = null;
 
-                    // If we have new keys, try those
-                    if (cachedApiKeys.length > 0) {
-                        attemptRequestWithKeys(0, cachedApiKeys, onSuccess, onError);
-                        return;
-                    }
-                }
+    // The models loaded from AI Studio, or null until they are loaded
+    let availableModels: string[] | null = null;
+    let availableModelsRequest: Promise<string[]> | null = null;
 
-                // Try the next key
-                attemptRequestWithKeys(keyIndex + 1, keys, onSuccess, onError);
-            };
+    /**
+     * Builds a model alias table without a prototype, leaving out the "models/" prefix of the names and entries
+     * that are not strings.
+     * @param {{ [model: string]: string }} aliases - The model names and the Gemini models to use instead.
+     * @returns {{ [model: string]: string }} The table.
+     */
+    function createModelAliasTable(aliases: { [model: string]: string }): { [model: string]: string } {
+        const table: { [model: string]: string } = Object.create(null);
+        for (const [model, alias] of Object.entries(aliases)) {
+            if (typeof alias === "string" && alias) {
+                table[model.replace(/^models\//, "")] = alias.replace(/^models\//, "");
+            }
+        }
+        return table;
+    }
 
-            // Send the request
-            xhr.withCredentials = true; //Include cookies, use this when you need to authenticate
-            xhr.send(data);
+    /**
+     * Loads the model alias table saved in chrome.storage.local, if it was changed, and follows the changes
+     * made in other tabs.
+     * @returns {Promise<void>} Resolves once the table is loaded.
+     */
+    function loadModelAliases(): Promise<void> {
+        if (!modelAliasesRequest) {
+            chrome.storage.onChanged.addListener((changes, areaName) => {
+                const change = changes[MODEL_ALIASES_STORAGE_KEY];
+                if (areaName !== "local" || !change) return;
+                const saved = change.newValue;
+                modelAliases = createModelAliasTable(saved && typeof saved === "object" ? saved : DEFAULT_MODEL_ALIASES);
+            });
+            modelAliasesRequest = chrome.storage.local
+                .get(MODEL_ALIASES_STORAGE_KEY)
+                .then((items) => {
+                    const saved = items[MODEL_ALIASES_STORAGE_KEY];
+                    if (saved && typeof saved === "object") modelAliases = createModelAliasTable(saved);
+                })
+                .catch((e: any) => console.warn("Failed to load the model aliases, using the default ones:", e));
         }
+        return modelAliasesRequest;
     }
+
     /**
-     * Creates a prompt using the MakerSuite API.
-     *
-     * @param {string} promptData - The prompt data in the format expected by the API.
-     * @param {function} onSuccess - Callback function to execute on successful API call.  Receives the response text as an argument.
-     * @param {function} onError - Callback function to execute on API error. Receives the error status and status text as arguments.
+     * Saves the model alias table to chrome.storage.local, so it is used in every tab and kept across sessions.
+     * @returns {Promise<void>} Resolves once the table is saved.
      */
-    function createMakerSuitePrompt(
-        promptName: string,
-        promptData: any
-    ): Promise<string> {
-        return sendMakerSuiteRequest("CreatePrompt", "POST", convertPromptData(promptName, promptData));
+    function saveModelAliases(): Promise<void> {
+        return chrome.storage.local.set({ [MODEL_ALIASES_STORAGE_KEY]: { ...modelAliases } });
     }
 
     /**
-     * Finds all API keys in the script tags of the current document.
-     *
-     * @param {string[]} ignore - Array of API keys to ignore (e.g., failed keys)
-     * @returns {string[]} An array of API keys found in the script tags.
-     */
-    function findApiKeys(ignore: string[] = []): string[] {
-        const scripts = document.querySelectorAll("script");
-        const apiKeys = new Set<string>();
-        for (const script of scripts as unknown as HTMLScriptElement[]) {
-            const src = script.innerHTML;
-            const match = src.match(/[`'"](AIzaSy([^\s`'"]*))[`'"]/g) ?? [];
-            match.forEach((m) => {
-                const key = m.replace(/[`'"]/g, "");
-                if (!ignore.includes(key)) {
-                    apiKeys.add(key);
-                }
-            });
+     * Adds entries to the model alias table, which renames models during conversion
+     * (e.g. `{ "gpt-4o": "gemini-2.0-flash" }`), and saves it. Map a model to an empty string to remove its alias.
+     * @param {{ [model: string]: string }} aliases - The model names and the Gemini models to use instead.
+     * @returns {Promise<void>} Resolves once the table is saved.
+     */
+    async function registerModelAliases(aliases: { [model: string]: string }): Promise<void> {
+        await loadModelAliases();
+        const table = createModelAliasTable(modelAliases);
+        for (const [model, alias] of Object.entries(aliases)) {
+            const name = model.replace(/^models\//, "");
+            if (alias) {
+                table[name] = alias.replace(/^models\//, "");
+            } else {
+                delete table[name];
+            }
         }
-        return Array.from(apiKeys).reverse(); // Seems like the last key is the one that works usually
+        modelAliases = table;
+        await saveModelAliases();
     }
 
     /**
-     * Finds the URL of the MakerSuite API in the script tags of the current document.
-     *
-     * @returns {string} The URL of the MakerSuite API.
+     * Replaces the whole model alias table and saves it.
+     * @param {{ [model: string]: string }} aliases - The model names and the Gemini models to use instead.
+     * @returns {Promise<void>} Resolves once the table is saved.
+     */
+    async function setModelAliases(aliases: { [model: string]: string }): Promise<void> {
+        await loadModelAliases();
+        modelAliases = createModelAliasTable(aliases);
+        await saveModelAliases();
+    }
+
+    /**
+     * Restores the default model alias table, removing the saved one.
+     * @returns {Promise<void>} Resolves once the saved table is removed.
+     */
+    async function resetModelAliases(): Promise<void> {
+        await loadModelAliases();
+        modelAliases = createModelAliasTable(DEFAULT_MODEL_ALIASES);
+        await chrome.storage.local.remove(MODEL_ALIASES_STORAGE_KEY);
+    }
+
+    /**
+     * Lists the model alias table.
+     * @returns {{ [model: string]: string }} A copy of the table.
+     */
+    function getModelAliases(): { [model: string]: string } {
+        return { ...modelAliases };
+    }
+
+    /**
+     * Checks and renames the model of an imported prompt. Aliases are applied, a duplicate "models/" prefix
+     * (or a Vertex AI resource path) is removed, and retired models are dropped so the prompt falls back to
+     * AI Studio's default model. Models missing from the list of available models are kept and flagged.
+     * @param {any} model - The model name, with or without the "models/" prefix.
+     * @param {string} location - Where the model came from, used in warnings (e.g. "runSettings.model").
+     * @param {ConversionWarning[]} warnings - Collects warnings about models that were renamed or dropped.
+     * @returns {string | undefined} The model as "models/<name>", or undefined if there is no usable model.
      */
-    function findUrl(): string {
-        if (cachedUrl) return cachedUrl;
-        const scripts = document.querySelectorAll("script");
-        for (const script of scripts as unknown as HTMLScriptElement[]) {
-            const src = script.innerHTML;
-            const match = src.match(/[`'"](https\:\/\/alkalimakersuite[^`'"]*\.google\.com)[`'"]/g);
-            if (match) {
-                cachedUrl = match[0].replace(/[`'"]/g, "");
-                return cachedUrl;
+    function resolveModelName(model: any, location: string, warnings: ConversionWarning[]): string | undefined {
+        if (typeof model !== "string" || !model.trim()) return undefined;
+        if (model.startsWith("tunedModels/")) return model;
+
+        // "models/models/x", "publishers/google/models/x" and "projects/.../models/x" all name the model "x"
+        let name = model.trim().replace(/^(.*\/)?models\//, "");
+        const alias = modelAliases[name];
+        if (alias) {
+            warnings.push({ path: location, message: `"${name}" was replaced by "${alias}" using the model alias table.` });
+            name = alias;
+        }
+
+        if ((availableModels ?? FALLBACK_MODELS).includes(name)) return `models/${name}`;
+
+        for (const pattern of RETIRED_MODEL_PATTERNS) {
+            if (pattern.test(name)) {
+                warnings.push({
+                    path: location,
+                    message: `"${name}" is retired and cannot be run in AI Studio, so it was dropped.`,
+                    change: "dropped",
+                });
+                return undefined;
             }
         }
-        throw new Error("No API URL found");
+        // The list may be incomplete (or the bundled one out of date), so the model is kept
+        if (availableModels) {
+            warnings.push({
+                path: location,
+                message: `"${name}" is not in the list of models available in AI Studio; check the model in the run settings after importing.`,
+            });
+            return `models/${name}`;
+        }
+        warnings.push({
+            path: location,
+            message: `"${name}" is not a known model; check the model in the run settings after importing.`,
+        });
+        return `models/${name}`;
     }
 
+    /**
+     * Positions of the fields of a MakerSuite prompt's metadata, which is [title, null x 9, []].
+     * The title position is known from prompts created by AI Studio, and the list at the end is where AI Studio
+     * keeps the tags. The position of the description is not known, so descriptions are not imported.
+     */
+    const PROMPT_METADATA_FIELD = {
+        TITLE: 0,
+        TAGS: 10,
+    };
+
+    /**
+     * Positions of the fields of a MakerSuite prompt chunk, which is [text, null x 7, role, ...].
+     * The text and role positions are known from prompts created by AI Studio. The positions of function calls
+     * and responses, the token count, the edited flag and the thought flag are not known, so they are not sent.
+     */
+    const CHUNK_FIELD = {
+        TEXT: 0,
+        ROLE: 8,
+    };
+
     /**
      * Converts a message to a prompt for the MakerSuite API.
+     * Media parts cannot be uploaded by the importer, so they are kept as a text placeholder and a warning is added.
+     * Where AI Studio stores function calls and responses in a prompt is not known, so they are dropped with a warning.
      * @param {string} role - The role of the message.
      * @param {Part} message - The message to convert.
-     * @returns {any} The converted message.
+     * @param {string} location - Where the message came from, used in warnings (e.g. "contents[0].parts[1]").
+     * @param {ConversionWarning[]} warnings - Collects warnings about parts that could not be fully represented.
+     * @returns {any[] | null} The converted message, or null if the part cannot be represented at all.
      */
-    function convertMessage(role: string, message: Part): any[] {
+    function convertMessage(role: string, message: Part, location: string, warnings: ConversionWarning[]): any[] | null {
         // Convert role:
         switch (role) {
             case "user":
@@ -192,209 +322,2004 @@
                 role = "model";
                 break;
             default:
+                // Includes the "function" and "tool" roles of function responses, which are sent by the user's side
                 role = "user";
         }
-
-        return [message.text, null, null, null, null, null, null, null, role];
+
+        let text: string;
+        if ("functionCall" in message) {
+            warnings.push({
+                path: location,
+                message: `The call to "${message.functionCall.name}" cannot be imported yet, since where AI Studio stores function calls is not known, so it was dropped.`,
+                change: "dropped",
+            });
+            return null;
+        } else if ("functionResponse" in message) {
+            warnings.push({
+                path: location,
+                message: `The response from "${message.functionResponse.name}" cannot be imported yet, since where AI Studio stores function responses is not known, so it was dropped.`,
+                change: "dropped",
+            });
+            return null;
+        } else if ("text" in message) {
+            // Sent as plain text, a thought would become part of the model's response
+            if (message.thought) {
+                warnings.push({
+                    path: location,
+                    message: "Model thoughts cannot be imported yet, since where AI Studio stores them is not known, so they were dropped.",
+                    change: "dropped",
+                });
+                return null;
+            }
+            text = message.text;
+        } else if ("inlineData" in message) {
+            const mimeType = message.inlineData.mimeType || "application/octet-stream";
+            const size = formatByteSize(Math.floor((message.inlineData.data?.length ?? 0) * 0.75));
+            text = `[Attachment not imported: ${mimeType}, ${size} of inline data]`;
+            warnings.push({
+                path: location,
+                message: `Inline ${mimeType} data cannot be uploaded by the importer. A placeholder was inserted; re-attach the file in AI Studio.`,
+            });
+        } else if ("fileData" in message) {
+            const mimeType = message.fileData.mimeType || "unknown type";
+            text = `[Attachment not imported: ${mimeType}, ${message.fileData.fileUri}]`;
+            warnings.push({
+                path: location,
+                message: `The file ${message.fileData.fileUri} cannot be attached by the importer. A placeholder was inserted; re-attach the file in AI Studio.`,
+            });
+        } else {
+            warnings.push({
+                path: location,
+                message: `"${Object.keys(message)[0]}" parts cannot be imported and were dropped.`,
+                change: "dropped",
+            });
+            return null;
+        }
+
+        return [text, null, null, null, null, null, null, null, role];
+    }
+
+    /**
+     * Formats a byte count into a human readable size.
+     * @param {number} bytes - The number of bytes.
+     * @returns {string} The formatted size (e.g. "12.3 KB").
+     */
+    function formatByteSize(bytes: number): string {
+        if (bytes < 1024) return bytes + " bytes";
+        if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+        return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+    }
+
+    /**
+     * Converts the contents of a generation request to MakerSuite prompt chunks.
+     * @param {Content[]} contents - The contents to convert.
+     * @param {ConversionWarning[]} warnings - Collects warnings about parts that could not be fully represented.
+     * @returns {any[]} The converted chunks, one per part.
+     */
+    function convertContents(contents: Content[], warnings: ConversionWarning[]): any[] {
+        const chunks: any[] = [];
+        for (let i = 0; i < contents.length; i++) {
+            const content = contents[i];
+            for (let j = 0; j < content.parts.length; j++) {
+                const chunk = convertMessage(content.role ?? "user", content.parts[j], `contents[${i}].parts[${j}]`, warnings);
+                if (chunk) chunks.push(chunk);
+            }
+        }
+        return chunks;
+    }
+
+    /**
+     * Converts an AI Studio file chunk to a Gemini API part.
+     * @param {ChunkedMessage} chunk - The chunk to convert.
+     * @returns {Part} The equivalent part.
+     */
+    function convertChunkToPart(chunk: ChunkedMessage): Part {
+        if (chunk.functionCall) {
+            return { functionCall: chunk.functionCall };
+        }
+        if (chunk.functionResponse) {
+            return { functionResponse: chunk.functionResponse };
+        }
+        if (chunk.inlineImage) {
+            return { inlineData: chunk.inlineImage };
+        }
+        const driveFile = chunk.driveImage ?? chunk.driveDocument ?? chunk.driveVideo;
+        if (driveFile) {
+            return { fileData: { fileUri: `https://drive.google.com/file/d/${driveFile.id}` } };
+        }
+        return chunk.isThought ? { text: chunk.text ?? "", thought: true } : { text: chunk.text ?? "" };
+    }
+
+    /**
+     * Converts AI Studio file chunks to MakerSuite prompt chunks. The token count and edited flag of the chunks
+     * have no known position in a MakerSuite chunk, so they are dropped with a single warning.
+     * @param {ChunkedMessage[]} contents - The chunks to convert.
+     * @param {string} location - Where the chunks came from, used in warnings (e.g. "chunkedPrompt.chunks").
+     * @param {ConversionWarning[]} warnings - Collects warnings about chunks that could not be fully represented.
+     * @returns {any[]} The converted chunks.
+     */
+    function convertChunks(contents: ChunkedMessage[], location: string, warnings: ConversionWarning[]): any[] {
+        const chunks: any[] = [];
+        let droppedMetadata = 0;
+        for (let i = 0; i < contents.length; i++) {
+            const content = contents[i];
+            const chunk = convertMessage(content.role, convertChunkToPart(content), `${location}[${i}]`, warnings);
+            if (chunk) chunks.push(chunk);
+            if (content.tokenCount != null || content.isEdited) droppedMetadata++;
+        }
+
+        if (droppedMetadata > 0) {
+            warnings.push({
+                path: location,
+                message: `The "tokenCount" and "isEdited" metadata of ${droppedMetadata} ${
+                    droppedMetadata === 1 ? "turn" : "turns"
+                } cannot be imported yet and was dropped.`,
+                change: "dropped",
+            });
+        }
+        return chunks;
+    }
+
+    /**
+     * Converts a response schema (or function parameters schema) to the MakerSuite format.
+     * Accepts Gemini API schemas as well as draft-7 JSON Schema, e.g. from Pydantic or Zod.
+     * @param {any} responseSchema - The schema to convert.
+     * @param {string} location - Where the schema came from, used in warnings.
+     * @param {ConversionWarning[]} warnings - Collects warnings about schema keywords that could not be represented.
+     * @returns {any} The converted schema.
+     */
+    function convertResponseSchema(responseSchema: any, location: string, warnings: ConversionWarning[]): any {
+        return encodeSchema(normalizeSchema(responseSchema, responseSchema, location, warnings, ["#"]));
+    }
+
+    /**
+     * Converts a normalized Gemini schema to the MakerSuite positional format.
+     * The positions follow the field numbers of the Gemini API Schema message.
+     * @param {Schema} schema - The normalized schema to convert.
+     * @returns {any[]} The converted schema.
+     */
+    function encodeSchema(schema: Schema): any[] {
+        let properties: any[] | null = null;
+        if (schema.properties) {
+            properties = [];
+            for (const [key, value] of Object.entries(schema.properties)) {
+                properties.push([key, encodeSchema(value)]);
+            }
+        }
+
+        let anyOf: any[] | null = null;
+        if (schema.anyOf) {
+            anyOf = [];
+            for (const member of schema.anyOf) {
+                anyOf.push(encodeSchema(member));
+            }
+        }
+
+        return trimTrailingNulls([
+            schema.type ? SCHEMA_TYPE_TO_NUMBER[schema.type] : null,
+            schema.format ?? null,
+            schema.description ?? null,
+            schema.nullable ?? null,
+            schema.enum ?? null,
+            schema.items ? encodeSchema(schema.items) : null,
+            properties,
+            schema.required ?? null,
+            schema.minProperties ?? null,
+            schema.maxProperties ?? null,
+            schema.minimum ?? null,
+            schema.maximum ?? null,
+            schema.minLength ?? null,
+            schema.maxLength ?? null,
+            schema.pattern ?? null,
+            null, // Example
+            null,
+            anyOf,
+            null,
+            null,
+            schema.maxItems ?? null,
+            schema.minItems ?? null,
+            schema.propertyOrdering ?? null,
+            schema.title ?? null,
+        ]);
+    }
+
+    // JSON Schema keywords that do not affect what the model generates, dropped without a warning
+    const IGNORED_SCHEMA_KEYWORDS = [
+        "$schema",
+        "$id",
+        "$comment",
+        "$defs",
+        "definitions",
+        "default",
+        "examples",
+        "example",
+        "readOnly",
+        "writeOnly",
+        "deprecated",
+    ];
+
+    // Numeric keywords shared by JSON Schema and the Gemini schema
+    const NUMERIC_SCHEMA_KEYWORDS = [
+        "minimum",
+        "maximum",
+        "minItems",
+        "maxItems",
+        "minLength",
+        "maxLength",
+        "minProperties",
+        "maxProperties",
+    ] as const;
+
+    /**
+     * Normalizes a Gemini API schema or a JSON Schema to the Gemini schema subset.
+     * Types are lowercased, `$ref`s are resolved, `oneOf`/`allOf`/`const` and `type` lists are rewritten,
+     * and keywords the Gemini schema does not support are dropped with a warning.
+     * @param {any} schema - The schema to normalize.
+     * @param {any} root - The root schema, which `$ref`s are resolved against.
+     * @param {string} location - Where the schema came from, used in warnings.
+     * @param {ConversionWarning[]} warnings - Collects warnings about keywords that could not be represented.
+     * @param {string[]} refStack - The `$ref`s being resolved, to detect recursive schemas.
+     * @returns {Schema} The normalized schema.
+     */
+    function normalizeSchema(
+        schema: any,
+        root: any,
+        location: string,
+        warnings: ConversionWarning[],
+        refStack: string[]
+    ): Schema {
+        if (schema == null || typeof schema !== "object" || Array.isArray(schema)) {
+            warnings.push({ path: location, message: "Schemas that accept any value are not supported; a string is expected instead." });
+            return { type: SchemaType.STRING };
+        }
+
+        // Resolve references to shared definitions, keeping keywords next to the $ref (e.g. description)
+        if (typeof schema.$ref === "string") {
+            const { $ref, ...siblings } = schema;
+            if (refStack.includes($ref)) {
+                warnings.push({
+                    path: location,
+                    message: `The recursive reference "${$ref}" cannot be imported and was replaced by an empty object.`,
+                });
+                return { type: SchemaType.OBJECT, ...(siblings.description ? { description: siblings.description } : {}) };
+            }
+            const target = resolveSchemaReference(root, $ref);
+            if (target === undefined) {
+                warnings.push({
+                    path: location,
+                    message: `The reference "${$ref}" could not be resolved; a string is expected instead.`,
+                });
+                return { type: SchemaType.STRING };
+            }
+            return normalizeSchema({ ...target, ...siblings }, root, location, warnings, [...refStack, $ref]);
+        }
+
+        // allOf is merged into a single schema
+        if (Array.isArray(schema.allOf)) {
+            const { allOf, ...rest } = schema;
+            let merged: any = {};
+            for (let i = 0; i < allOf.length; i++) {
+                merged = mergeSchemas(merged, normalizeSchema(allOf[i], root, `${location}.allOf[${i}]`, warnings, refStack));
+            }
+            return mergeSchemas(merged, normalizeSchema(rest, root, location, warnings, refStack));
+        }
+
+        const normalized: any = {};
+        const unsupported: string[] = [];
+        let hasStringifiedEnum = false;
+
+        for (const [key, value] of Object.entries(schema)) {
+            switch (key) {
+                case "type":
+                    normalizeSchemaType(value, normalized, location, warnings);
+                    break;
+                case "format":
+                case "title":
+                case "description":
+                case "pattern":
+                    if (typeof value === "string") normalized[key] = value;
+                    break;
+                case "nullable":
+                    if (value) normalized.nullable = true;
+                    break;
+                case "enum":
+                case "const": {
+                    const values = key === "const" ? [value] : Array.isArray(value) ? value : [];
+                    normalized.enum = [];
+                    for (const item of values) {
+                        if (item === null) normalized.nullable = true;
+                        else if (typeof item === "string") normalized.enum.push(item);
+                        else {
+                            // The Gemini schema only stores enum values as strings
+                            normalized.enum.push(JSON.stringify(item));
+                            hasStringifiedEnum = true;
+                        }
+                    }
+                    break;
+                }
+                case "items":
+                    if (Array.isArray(value)) {
+                        warnings.push({
+                            path: `${location}.items`,
+                            message: "Tuple schemas are not supported; only the first item schema was kept.",
+                        });
+                        if (value.length > 0) {
+                            normalized.items = normalizeSchema(value[0], root, `${location}.items[0]`, warnings, refStack);
+                        }
+                    } else {
+                        normalized.items = normalizeSchema(value, root, `${location}.items`, warnings, refStack);
+                    }
+                    break;
+                case "properties":
+                    normalized.properties = {};
+                    for (const [property, propertySchema] of Object.entries(value ?? {})) {
+                        normalized.properties[property] = normalizeSchema(
+                            propertySchema,
+                            root,
+                            `${location}.properties.${property}`,
+                            warnings,
+                            refStack
+                        );
+                    }
+                    break;
+                case "required":
+                case "propertyOrdering":
+                    if (Array.isArray(value)) normalized[key] = value.filter((item) => typeof item === "string");
+                    break;
+                case "anyOf":
+                case "oneOf":
+                    normalizeAnyOf(value, normalized, root, `${location}.${key}`, warnings, refStack);
+                    break;
+                case "exclusiveMinimum":
+                case "exclusiveMaximum":
+                    // Draft-7 numbers; the draft-4 booleans only modify minimum/maximum
+                    if (typeof value === "number") {
+                        normalized[key === "exclusiveMinimum" ? "minimum" : "maximum"] ??= value;
+                        warnings.push({ path: location, message: `"${key}" was imported as an inclusive bound.` });
+                    }
+                    break;
+                case "additionalProperties":
+                    // Objects never have additional properties in the Gemini schema
+                    if (value !== false) unsupported.push(key);
+                    break;
+                default:
+                    if ((NUMERIC_SCHEMA_KEYWORDS as readonly string[]).includes(key)) {
+                        if (typeof value === "number") normalized[key] = value;
+                    } else if (!IGNORED_SCHEMA_KEYWORDS.includes(key)) {
+                        unsupported.push(key);
+                    }
+            }
+        }
+
+        if (unsupported.length > 0) {
+            warnings.push({
+                path: location,
+                message: `${unsupported.map((key) => `"${key}"`).join(", ")} ${
+                    unsupported.length === 1 ? "is" : "are"
+                } not supported by the Gemini schema and ${unsupported.length === 1 ? "was" : "were"} dropped.`,
+                change: "dropped",
+            });
+        }
+
+        // Stringified values would never match a number or boolean, so the schema has to expect strings
+        if (hasStringifiedEnum && !normalized.anyOf) {
+            const changedType = normalized.type && normalized.type !== SchemaType.STRING ? normalized.type : null;
+            warnings.push({
+                path: location,
+                message: `Non-string enum values were stored as strings${
+                    changedType ? ` and the type "${changedType}" was changed to string` : ""
+                }.`,
+            });
+            normalized.type = SchemaType.STRING;
+        }
+
+        // JSON Schema allows omitting the type
+        if (!normalized.type && !normalized.anyOf) {
+            if (normalized.properties) normalized.type = SchemaType.OBJECT;
+            else if (normalized.items) normalized.type = SchemaType.ARRAY;
+            else if (normalized.enum) normalized.type = SchemaType.STRING;
+        }
+
+        // Keywords that only apply to other types, e.g. required on a string
+        if (normalized.type !== SchemaType.OBJECT) {
+            delete normalized.properties;
+            delete normalized.required;
+            delete normalized.propertyOrdering;
+        }
+        if (normalized.type !== SchemaType.ARRAY) {
+            delete normalized.items;
+        }
+        return normalized;
+    }
+
+    /**
+     * Normalizes the `type` of a schema. Uppercase Gemini types are lowercased, and JSON Schema type lists
+     * are turned into `nullable` (for "null") and `anyOf` (for several other types).
+     * @param {any} type - The type to normalize.
+     * @param {any} normalized - The normalized schema to update.
+     * @param {string} location - Where the schema came from, used in warnings.
+     * @param {ConversionWarning[]} warnings - Collects warnings about unknown types.
+     */
+    function normalizeSchemaType(type: any, normalized: any, location: string, warnings: ConversionWarning[]): void {
+        const types: SchemaType[] = [];
+        for (const item of Array.isArray(type) ? type : [type]) {
+            const lowercase = String(item).toLowerCase();
+            if (lowercase === "null") {
+                normalized.nullable = true;
+            } else if (Object.prototype.hasOwnProperty.call(SCHEMA_TYPE_TO_NUMBER, lowercase)) {
+                types.push(lowercase as SchemaType);
+            } else if (lowercase !== "type_unspecified") {
+                warnings.push({ path: location, message: `The type "${item}" is not supported and was dropped.`, change: "dropped" });
+            }
+        }
+
+        if (types.length === 1) {
+            normalized.type = types[0];
+        } else if (types.length > 1) {
+            normalized.anyOf = types.map((item) => ({ type: item }));
+        } else if (normalized.nullable) {
+            warnings.push({
+                path: location,
+                message: "A schema that only allows null is not supported; a nullable string is expected instead.",
+            });
+            normalized.type = SchemaType.STRING;
+        }
+    }
+
+    /**
+     * Normalizes `anyOf`/`oneOf`. A `{ "type": "null" }` member makes the schema nullable, and a single
+     * remaining member is merged into the schema itself (e.g. Pydantic's `Optional[X]`).
+     * @param {any} members - The member schemas.
+     * @param {any} normalized - The normalized schema to update.
+     * @param {any} root - The root schema, which `$ref`s are resolved against.
+     * @param {string} location - Where the members came from, used in warnings.
+     * @param {ConversionWarning[]} warnings - Collects warnings about keywords that could not be represented.
+     * @param {string[]} refStack - The `$ref`s being resolved, to detect recursive schemas.
+     */
+    function normalizeAnyOf(
+        members: any,
+        normalized: any,
+        root: any,
+        location: string,
+        warnings: ConversionWarning[],
+        refStack: string[]
+    ): void {
+        if (!Array.isArray(members)) return;
+
+        const anyOf: Schema[] = [];
+        for (let i = 0; i < members.length; i++) {
+            const type = members[i]?.type;
+            if (type === "null" || type === "NULL") {
+                normalized.nullable = true;
+                continue;
+            }
+            anyOf.push(normalizeSchema(members[i], root, `${location}[${i}]`, warnings, refStack));
+        }
+
+        if (anyOf.length === 1) {
+            const { description, ...member } = anyOf[0];
+            Object.assign(normalized, member);
+            if (description && !normalized.description) normalized.description = description;
+        } else if (anyOf.length > 1) {
+            normalized.anyOf = anyOf;
+        }
+    }
+
+    /**
+     * Merges two normalized schemas, combining their properties and required properties (for `allOf`).
+     * @param {any} target - The schema to merge into.
+     * @param {any} source - The schema to merge.
+     * @returns {any} The merged schema.
+     */
+    function mergeSchemas(target: any, source: any): any {
+        const merged = { ...target, ...source };
+        if (target.properties && source.properties) {
+            merged.properties = { ...target.properties, ...source.properties };
+        }
+        if (target.required && source.required) {
+            merged.required = [...new Set([...target.required, ...source.required])];
+        }
+        return merged;
+    }
+
+    /**
+     * Resolves a local JSON Schema reference such as "#/$defs/Recipe".
+     * @param {any} root - The root schema.
+     * @param {string} ref - The reference to resolve.
+     * @returns {any} The referenced schema, or undefined if it does not exist.
+     */
+    function resolveSchemaReference(root: any, ref: string): any {
+        if (!ref.startsWith("#")) return undefined;
+
+        let target = root;
+        for (const segment of ref.slice(1).split("/")) {
+            if (segment === "") continue;
+            const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+            if (target == null || typeof target !== "object" || !(key in target)) return undefined;
+            target = target[key];
+        }
+        return target;
+    }
+
+    /**
+     * Removes null values from the end of a positional array.
+     * @param {any[]} values - The array to trim (modified in place).
+     * @returns {any[]} The trimmed array.
+     */
+    function trimTrailingNulls(values: any[]): any[] {
+        for (let i = values.length - 1; i >= 0; i--) {
+            if (values[i] != null) {
+                values.splice(i + 1, values.length - i - 1);
+                return values;
+            }
+        }
+        values.length = 0;
+        return values;
+    }
+
+    /**
+     * Sent in place of the safety settings of every prompt, as prompts created by AI Studio do.
+     * Its meaning is not known, so it is only compared as a whole and never read as settings.
+     */
+    const UNKNOWN_PAD = [
+        // Unsure what this is
+        [null, null, 7, 1],
+        [null, null, 8, 2],
+        [null, null, 9, 3],
+        [null, null, 10, 4],
+        [null, null, 11, 5],
+    ];
+
+    /**
+     * Converts safety settings to the MakerSuite format. Where AI Studio stores each setting is not known, so the
+     * prompt always gets the same pad as AI Studio's prompts, and any given settings are reported as not applied.
+     * @param {SafetySetting[]} safetySettings - The safety settings to convert.
+     * @param {string} location - Where the safety settings came from, used in warnings (e.g. "runSettings.safetySettings").
+     * @param {ConversionWarning[]} warnings - Collects a warning when safety settings could not be applied.
+     * @returns {any[]} The converted safety settings.
+     */
+    function convertSafetySettings(
+        safetySettings: SafetySetting[] | undefined,
+        location: string,
+        warnings: ConversionWarning[]
+    ): any[] {
+        if (safetySettings && safetySettings.length > 0) {
+            warnings.push({
+                path: location,
+                message:
+                    "Safety settings cannot be imported yet, since their layout in AI Studio prompts is not known, so they were not applied; AI Studio's default safety settings will be used.",
+                change: "dropped",
+            });
+        }
+        return UNKNOWN_PAD.map((entry) => [...entry]);
+    }
+
+    /**
+     * Converts a system instruction in any of the shapes produced by the Gemini SDKs and AI Studio
+     * (a string, a part, a list of parts or a content) to the MakerSuite format.
+     * Multiple text parts are joined into a single system instruction.
+     * @param {SystemInstruction} systemInstruction - The system instruction to convert.
+     * @param {string} location - Where the system instruction came from, used in warnings.
+     * @param {ConversionWarning[]} warnings - Collects warnings about parts that could not be represented.
+     * @returns {any[]} The converted system instruction, or an empty array if there is none.
+     */
+    function convertSystemInstruction(
+        systemInstruction: SystemInstruction | undefined,
+        location: string,
+        warnings: ConversionWarning[]
+    ): any[] {
+        if (systemInstruction == null) return [];
+
+        // A single string or part has no index in its location
+        let parts: (string | Part)[];
+        let partsLocation: string | null = location;
+        if (typeof systemInstruction === "string") {
+            parts = [systemInstruction];
+            partsLocation = null;
+        } else if (Array.isArray(systemInstruction)) {
+            parts = systemInstruction;
+        } else if ("parts" in systemInstruction) {
+            parts = systemInstruction.parts ?? [];
+            partsLocation = `${location}.parts`;
+        } else if (Object.keys(systemInstruction).length === 0) {
+            // AI Studio files use an empty object when there is no system instruction
+            parts = [];
+        } else {
+            parts = [systemInstruction as Part];
+            partsLocation = null;
+        }
+
+        const texts: string[] = [];
+        for (let i = 0; i < parts.length; i++) {
+            const part = parts[i];
+            if (typeof part === "string") {
+                texts.push(part);
+            } else if ("text" in part) {
+                texts.push(part.text);
+            } else {
+                warnings.push({
+                    path: partsLocation ? `${partsLocation}[${i}]` : location,
+                    message: `"${Object.keys(part)[0]}" parts cannot be used in a system instruction and were dropped.`,
+                    change: "dropped",
+                });
+            }
+        }
+
+        const text = texts.join("\n\n");
+        return text ? [[text]] : [];
+    }
+
+    /**
+     * Converts the tools of a generation request to the equivalent AI Studio run settings. Function declarations
+     * have no known place in the MakerSuite prompt config, so they are dropped with a warning.
+     * @param {Tool[]} tools - The tools to convert.
+     * @param {ToolConfig} toolConfig - The tool configuration of the request.
+     * @param {ConversionWarning[]} warnings - Collects warnings about tools that could not be represented.
+     * @returns {RunSettings} The tool-related run settings.
+     */
+    function convertTools(tools: Tool[], toolConfig: ToolConfig | undefined, warnings: ConversionWarning[]): RunSettings {
+        const runSettings: RunSettings = {};
+
+        for (let i = 0; i < tools.length; i++) {
+            const tool = tools[i];
+            for (const key of Object.keys(tool)) {
+                switch (key) {
+                    case "functionDeclarations":
+                        warnings.push(droppedFunctionDeclarations(`tools[${i}].functionDeclarations`));
+                        break;
+                    case "codeExecution":
+                        runSettings.enableCodeExecution = true;
+                        break;
+                    case "googleSearch":
+                    case "googleSearchRetrieval":
+                        runSettings.enableSearchAsATool = true;
+                        break;
+                    default:
+                        warnings.push({
+                            path: `tools[${i}]`,
+                            message: `"${key}" tools cannot be imported and were dropped.`,
+                            change: "dropped",
+                        });
+                }
+            }
+        }
+
+        const mode = toolConfig?.functionCallingConfig?.mode;
+        if (mode && mode !== "AUTO") {
+            warnings.push({
+                path: "toolConfig",
+                message: `The function calling mode "${mode}" cannot be imported; AI Studio will use AUTO.`,
+            });
+        }
+        return runSettings;
+    }
+
+    /**
+     * Converts the generation config of a generation request to the equivalent AI Studio run settings.
+     * @param {GenerateContentRequest} generationRequest - The generation request to convert.
+     * @param {ConversionWarning[]} warnings - Collects warnings about data that could not be represented.
+     * @returns {RunSettings} The run settings.
+     */
+    function convertGenerationConfig(generationRequest: GenerateContentRequest, warnings: ConversionWarning[]): RunSettings {
+        const generationConfig = generationRequest.generationConfig;
+        for (const [key, value] of Object.entries(generationConfig ?? {})) {
+            if (value !== undefined && !SUPPORTED_GENERATION_CONFIG_KEYS.includes(key)) {
+                warnings.push({
+                    path: `generationConfig.${key}`,
+                    message: "AI Studio cannot store this parameter, so it was dropped.",
+                    change: "dropped",
+                });
+            }
+        }
+
+        return {
+            model: generationRequest.model,
+            temperature: generationConfig?.temperature,
+            endTokens: generationConfig?.stopSequences,
+            topP: generationConfig?.topP,
+            topK: generationConfig?.topK,
+            maxOutputTokens: generationConfig?.maxOutputTokens,
+            responseMimeType: generationConfig?.responseMimeType,
+            responseSchema: generationConfig?.responseSchema ?? generationConfig?.responseJsonSchema,
+            safetySettings: generationRequest.safetySettings,
+            ...convertTools(generationRequest.tools ?? [], generationRequest.toolConfig, warnings),
+        };
+    }
+
+    // Generation config parameters that have a place in the MakerSuite prompt config
+    const SUPPORTED_GENERATION_CONFIG_KEYS = [
+        "temperature",
+        "stopSequences",
+        "topP",
+        "topK",
+        "maxOutputTokens",
+        "responseMimeType",
+        "responseSchema",
+        "responseJsonSchema",
+    ];
+
+    /**
+     * Warns that function declarations were dropped, since where AI Studio stores them in a prompt is not known.
+     * @param {string} path - The JSON path of the function declarations.
+     * @returns {ConversionWarning} The warning.
+     */
+    function droppedFunctionDeclarations(path: string): ConversionWarning {
+        return {
+            path,
+            message: "Function declarations cannot be imported yet, since their place in AI Studio prompts is not known, so they were dropped.",
+            change: "dropped",
+        };
+    }
+
+    /**
+     * Converts run settings to the MakerSuite prompt config.
+     * @param {RunSettings} runSettings - The run settings to convert.
+     * @param {string} location - Where the run settings came from, used in warnings ("" for top-level fields).
+     * @param {ConversionWarning[]} warnings - Collects warnings about settings that could not be represented.
+     * @returns {any[]} The converted config.
+     */
+    function convertRunSettings(runSettings: RunSettings, location: string, warnings: ConversionWarning[]): any[] {
+        const prefix = location ? `${location}.` : "";
+        if (runSettings.functionDeclarations && runSettings.functionDeclarations.length > 0) {
+            warnings.push(droppedFunctionDeclarations(`${prefix}functionDeclarations`));
+        }
+        return [
+            runSettings.temperature ?? null, //1
+            runSettings.endTokens && runSettings.endTokens.length > 0 ? runSettings.endTokens : null, // Stop sequences
+            resolveModelName(runSettings.model, `${prefix}model`, warnings) ?? null, //"models/gemini-2.0-flash",
+            null,
+            runSettings.topP ?? null, //0.95,
+            runSettings.topK ?? null, //40,
+            runSettings.maxOutputTokens ?? null, //8192,
+            convertSafetySettings(runSettings.safetySettings, `${prefix}safetySettings`, warnings),
+            runSettings.responseMimeType ?? (runSettings.responseSchema ? "application/json" : "text/plain"),
+            runSettings.enableCodeExecution ? 1 : 0, // Code execution
+            runSettings.responseSchema
+                ? convertResponseSchema(runSettings.responseSchema, `${prefix || "generationConfig."}responseSchema`, warnings)
+                : null,
+            null, // Function declarations, whose layout is not known
+            null,
+            1,
+            runSettings.enableSearchAsATool ? 1 : 0, // Grounding with Google Search
+            null,
+            null,
+            runSettings.enableBrowseAsATool ? 1 : 0, // Browse as a tool
+            runSettings.enableAutoFunctionResponse ? 1 : 0, // Automatic function response
+        ];
+    }
+
+    /**
+     * Assembles a MakerSuite prompt from its converted pieces.
+     * @param {string} promptName - The name of the prompt.
+     * @param {any[]} config - The converted config.
+     * @param {any[]} systemInstruction - The converted system instruction.
+     * @param {any[]} chunks - The converted chunks.
+     * @param {any[]} pendingInputs - The converted pending inputs (the text typed in the prompt box), if any.
+     * @returns {any} The assembled prompt.
+     */
+    function buildPrompt(
+        promptName: string,
+        config: any[],
+        systemInstruction: any[],
+        chunks: any[],
+        pendingInputs: any[] = []
+    ): any {
+        const metadata = [
+            promptName, // Title
+            null,
+            null,
+            null,
+            null,
+            null,
+            null,
+            null,
+            null,
+            null,
+            [],
+        ];
+
+        const outside = [
+            [
+                null, // Prompt id
+                null,
+                null,
+                config,
+                metadata,
+                null,
+                null,
+                null,
+                null,
+                null,
+                null,
+                null,
+                systemInstruction,
+                [
+                    chunks,
+                    // Pending inputs, an empty user input field by default
+                    pendingInputs.length > 0 ? pendingInputs : [["", null, null, null, null, null, null, null, "user"]],
+                ],
+            ],
+        ];
+        return outside;
+    }
+
+    /**
+     * Sets the title and tags of a converted prompt. The description has no known position, so it is dropped.
+     * @param {any} prompt - The converted prompt, as returned by `buildPrompt`.
+     * @param {PromptMetadata} metadata - The metadata to set. Missing fields are left as they are.
+     * @param {ConversionWarning[]} warnings - Collects a warning if a description is given.
+     */
+    function applyPromptMetadata(prompt: any, metadata: PromptMetadata, warnings: ConversionWarning[]): void {
+        const promptMetadata = prompt?.[0]?.[4];
+        if (!promptMetadata) return;
+
+        if (metadata.title) promptMetadata[PROMPT_METADATA_FIELD.TITLE] = metadata.title;
+        if (metadata.description) {
+            warnings.push({
+                path: "description",
+                message: "AI Studio prompts have no known field for the description, so it was dropped.",
+                change: "dropped",
+            });
+        }
+        if (metadata.tags && metadata.tags.length > 0) promptMetadata[PROMPT_METADATA_FIELD.TAGS] = [...metadata.tags];
+    }
+
+    /**
+     * Reads the title and tags of a MakerSuite prompt.
+     * @param {any[]} prompt - The MakerSuite prompt, as returned by the GetPrompt and ListPrompts methods.
+     * @returns {PromptMetadata} The metadata. Missing fields are left out.
+     */
+    function decodePromptMetadata(prompt: any[]): PromptMetadata {
+        const promptMetadata = prompt?.[4] ?? [];
+        const metadata: PromptMetadata = {};
+        const title = promptMetadata[PROMPT_METADATA_FIELD.TITLE];
+        if (typeof title === "string" && title) metadata.title = title;
+        const tags = promptMetadata[PROMPT_METADATA_FIELD.TAGS];
+        if (Array.isArray(tags) && tags.length > 0) metadata.tags = tags.filter((tag) => typeof tag === "string");
+        return metadata;
+    }
+
+    /**
+     * Converts a generation request to a prompt for the MakerSuite API.
+     * @param {string} promptName - The name of the prompt.
+     * @param {GenerateContentRequest} generationRequest - The generation request to convert.
+     * @param {ConversionWarning[]} warnings - Collects warnings about data that could not be represented.
+     * @returns {any} The converted prompt.
+     */
+    function convertPromptAPI(
+        promptName: string,
+        generationRequest: GenerateContentRequest,
+        warnings: ConversionWarning[]
+    ): any {
+        return buildPrompt(
+            promptName,
+            convertRunSettings(convertGenerationConfig(generationRequest, warnings), "", warnings),
+            convertSystemInstruction(generationRequest.systemInstruction, "systemInstruction", warnings),
+            convertContents(generationRequest.contents, warnings)
+        );
+    }
+
+    /**
+     * Converts a generation request to a prompt for the AI Studio API.
+     * @param {string} promptName - The name of the prompt.
+     * @param {AIStudioFile} generationRequest - The generation request to convert.
+     * @param {ConversionWarning[]} warnings - Collects warnings about data that could not be represented.
+     * @returns {any} The converted prompt.
+     */
+    function convertPromptStudio(promptName: string, generationRequest: AIStudioFile, warnings: ConversionWarning[]): any {
+        const chunks = convertChunks(generationRequest.chunkedPrompt?.chunks ?? [], "chunkedPrompt.chunks", warnings);
+        const pendingInputs = convertChunks(
+            generationRequest.chunkedPrompt?.pendingInputs ?? [],
+            "chunkedPrompt.pendingInputs",
+            warnings
+        );
+
+        return buildPrompt(
+            promptName,
+            convertRunSettings(generationRequest.runSettings ?? {}, "runSettings", warnings),
+            convertSystemInstruction(generationRequest.systemInstruction, "systemInstruction", warnings),
+            chunks,
+            pendingInputs
+        );
+    }
+
+    /**
+     * Converts an OpenAI message content (string or array of content parts) to Gemini API parts.
+     * @param {OpenAIMessageContent} content - The message content to convert.
+     * @param {string} location - Where the content came from, used in warnings (e.g. "messages[2]").
+     * @param {ConversionWarning[]} warnings - Collects warnings about content parts that were dropped.
+     * @returns {Part[]} The converted parts.
+     */
+    function convertOpenAIContent(content: OpenAIMessageContent, location: string, warnings: ConversionWarning[]): Part[] {
+        if (content == null) return [];
+        if (typeof content === "string") return [{ text: content }];
+
+        const parts: Part[] = [];
+        for (const contentPart of content) {
+            if (contentPart.type === "text" && typeof contentPart.text === "string") {
+                parts.push({ text: contentPart.text });
+            } else if (contentPart.type === "image_url" && contentPart.image_url) {
+                parts.push(convertUrlToPart(contentPart.image_url.url));
+            } else if (contentPart.type === "input_audio" && contentPart.input_audio) {
+                parts.push({
+                    inlineData: { mimeType: `audio/${contentPart.input_audio.format}`, data: contentPart.input_audio.data },
+                });
+            } else if (contentPart.type === "file" && contentPart.file?.file_data) {
+                parts.push(convertUrlToPart(contentPart.file.file_data));
+            } else {
+                warnings.push({
+                    path: location,
+                    message: `"${contentPart.type}" content parts cannot be imported and were dropped.`,
+                    change: "dropped",
+                });
+            }
+        }
+        return parts;
+    }
+
+    /**
+     * Parses the JSON-encoded arguments of an OpenAI function call.
+     * @param {any} args - The arguments, usually a JSON string.
+     * @param {string} location - Where the call came from, used in warnings (e.g. "messages[1].tool_calls[0]").
+     * @param {ConversionWarning[]} warnings - Collects a warning if the arguments are not a JSON object.
+     * @returns {{ [k: string]: any }} The arguments as an object.
+     */
+    function parseFunctionArguments(args: any, location: string, warnings: ConversionWarning[]): { [k: string]: any } {
+        if (isJsonObject(args)) return args;
+        if (typeof args !== "string" || !args.trim()) return {};
+        try {
+            const parsed = JSON.parse(args);
+            if (isJsonObject(parsed)) return parsed;
+        } catch (e) {
+            // Reported below
+        }
+        warnings.push({
+            path: location,
+            message: 'The arguments are not a JSON object, so they were kept as a string in "arguments".',
+        });
+        return { arguments: args };
+    }
+
+    /**
+     * Converts the output of a tool to the response of a Gemini API function response.
+     * @param {string} output - The output of the tool, as text.
+     * @returns {{ [k: string]: any }} The output itself if it is a JSON object, otherwise `{ output }`.
+     */
+    function parseFunctionOutput(output: string): { [k: string]: any } {
+        try {
+            const parsed = JSON.parse(output);
+            if (isJsonObject(parsed)) return parsed;
+            return { output: parsed };
+        } catch (e) {
+            return { output };
+        }
+    }
+
+    /**
+     * Converts a URL to a Gemini API part, decoding `data:` URLs to inline data.
+     * @param {string} url - The URL to convert.
+     * @returns {Part} An inline data part for `data:` URLs, otherwise a file data part.
+     */
+    function convertUrlToPart(url: string): Part {
+        const match = url.match(/^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/);
+        if (match) {
+            return { inlineData: { mimeType: match[1] ?? "application/octet-stream", data: match[2] } };
+        }
+        return { fileData: { fileUri: url } };
+    }
+
+    /**
+     * Converts an OpenAI Chat Completions request to a Gemini API generation request.
+     * @param {OpenAIChatRequest} chatRequest - The chat completions request to convert.
+     * @param {ConversionWarning[]} warnings - Collects warnings about data that could not be represented.
+     * @returns {GenerateContentRequest} The equivalent generation request.
+     */
+    function convertOpenAIRequest(chatRequest: OpenAIChatRequest, warnings: ConversionWarning[]): GenerateContentRequest {
+        const systemParts: Part[] = [];
+        const contents: Content[] = [];
+        // Tool messages only have the id of the call they answer, so the function name is looked up by id
+        const functionNames = new Map<string, string>();
+
+        for (let i = 0; i < chatRequest.messages.length; i++) {
+            const message = chatRequest.messages[i];
+            switch (message.role) {
+                case "system":
+                case "developer":
+                    systemParts.push(...convertOpenAIContent(message.content, `messages[${i}]`, warnings));
+                    break;
+                case "assistant": {
+                    const parts = convertOpenAIContent(message.content, `messages[${i}]`, warnings);
+                    const toolCalls = message.tool_calls ?? [];
+                    for (let j = 0; j < toolCalls.length; j++) {
+                        const location = `messages[${i}].tool_calls[${j}]`;
+                        const call = toolCalls[j].function;
+                        if (!call) {
+                            warnings.push({
+                                path: location,
+                                message: `"${toolCalls[j].type}" tool calls cannot be imported and were dropped.`,
+                                change: "dropped",
+                            });
+                            continue;
+                        }
+                        functionNames.set(toolCalls[j].id, call.name);
+                        parts.push({
+                            functionCall: {
+                                id: toolCalls[j].id,
+                                name: call.name,
+                                args: parseFunctionArguments(call.arguments, location, warnings),
+                            },
+                        });
+                    }
+                    // Legacy function calling, before tool calls
+                    if (message.function_call) {
+                        const args = message.function_call.arguments;
+                        parts.push({
+                            functionCall: {
+                                name: message.function_call.name,
+                                args: parseFunctionArguments(args, `messages[${i}].function_call`, warnings),
+                            },
+                        });
+                    }
+                    contents.push({ role: "model", parts });
+                    break;
+                }
+                case "tool":
+                case "function": {
+                    const name = (message.tool_call_id && functionNames.get(message.tool_call_id)) || message.name || "";
+                    const output = convertOpenAIContent(message.content, `messages[${i}]`, warnings);
+                    const texts: string[] = [];
+                    for (const part of output) {
+                        if ("text" in part) texts.push(part.text);
+                    }
+                    const functionResponse: FunctionResponse = { name, response: parseFunctionOutput(texts.join("")) };
+                    if (message.tool_call_id) functionResponse.id = message.tool_call_id;
+                    contents.push({ role: "user", parts: [{ functionResponse }] });
+                    break;
+                }
+                default:
+                    contents.push({ role: "user", parts: convertOpenAIContent(message.content, `messages[${i}]`, warnings) });
+            }
+        }
+
+        const generationConfig: GenerationConfig = {};
+        if (chatRequest.temperature != null) generationConfig.temperature = chatRequest.temperature;
+        if (chatRequest.top_p != null) generationConfig.topP = chatRequest.top_p;
+        if (chatRequest.max_completion_tokens != null || chatRequest.max_tokens != null) {
+            generationConfig.maxOutputTokens = chatRequest.max_completion_tokens ?? chatRequest.max_tokens;
+        }
+        // Not representable in AI Studio, but mapped so they are reported when converting the generation config
+        if (chatRequest.n != null) generationConfig.candidateCount = chatRequest.n;
+        if (chatRequest.presence_penalty != null) generationConfig.presencePenalty = chatRequest.presence_penalty;
+        if (chatRequest.frequency_penalty != null) generationConfig.frequencyPenalty = chatRequest.frequency_penalty;
+        if (chatRequest.logprobs != null) generationConfig.responseLogprobs = chatRequest.logprobs;
+        if (chatRequest.top_logprobs != null) generationConfig.logprobs = chatRequest.top_logprobs;
+        if (chatRequest.seed != null) generationConfig.seed = chatRequest.seed;
+        if (chatRequest.stop != null) {
+            generationConfig.stopSequences = typeof chatRequest.stop === "string" ? [chatRequest.stop] : chatRequest.stop;
+        }
+        const functionDeclarations: FunctionDeclaration[] = [];
+        const openAITools = chatRequest.tools ?? [];
+        for (let i = 0; i < openAITools.length; i++) {
+            const tool = openAITools[i];
+            if (tool.type === "function" && tool.function) {
+                functionDeclarations.push({
+                    name: tool.function.name,
+                    description: tool.function.description,
+                    parameters: tool.function.parameters,
+                });
+            } else {
+                warnings.push({
+                    path: `tools[${i}]`,
+                    message: `"${tool.type}" tools cannot be imported and were dropped.`,
+                    change: "dropped",
+                });
+            }
+        }
+
+        if (chatRequest.response_format?.type === "json_object") {
+            generationConfig.responseMimeType = "application/json";
+        } else if (chatRequest.response_format?.type === "json_schema") {
+            generationConfig.responseMimeType = "application/json";
+            generationConfig.responseSchema = chatRequest.response_format.json_schema?.schema;
+        }
+
+        return {
+            model: chatRequest.model,
+            contents,
+            systemInstruction: systemParts.length > 0 ? { role: "system", parts: systemParts } : undefined,
+            generationConfig,
+            tools: functionDeclarations.length > 0 ? [{ functionDeclarations }] : undefined,
+        };
+    }
+
+    /**
+     * Converts Anthropic content blocks to Gemini API parts, reporting any blocks that cannot be represented.
+     * @param {AnthropicContent} content - The message content (or system prompt) to convert.
+     * @param {string} location - Where the content came from, used in warnings (e.g. "messages[2]").
+     * @param {ConversionWarning[]} warnings - Collects warnings about blocks that were dropped.
+     * @returns {Part[]} The converted parts.
+     */
+    function convertAnthropicContent(
+        content: AnthropicContent,
+        location: string,
+        warnings: ConversionWarning[],
+        functionNames: Map<string, string> = new Map()
+    ): Part[] {
+        if (content == null) return [];
+        if (typeof content === "string") return [{ text: content }];
+
+        const parts: Part[] = [];
+        for (const block of content) {
+            if (block.type === "tool_use" && block.name) {
+                if (block.id) functionNames.set(block.id, block.name);
+                parts.push({ functionCall: { id: block.id, name: block.name, args: block.input ?? {} } });
+            } else if (block.type === "tool_result") {
+                const output = convertAnthropicContent(block.content ?? null, location, warnings, functionNames);
+                const texts: string[] = [];
+                for (const part of output) {
+                    if ("text" in part) texts.push(part.text);
+                }
+                const response = block.is_error ? { error: texts.join("") } : parseFunctionOutput(texts.join(""));
+                const name = (block.tool_use_id && functionNames.get(block.tool_use_id)) || "";
+                parts.push({ functionResponse: { id: block.tool_use_id, name, response } });
+            } else if (block.type === "text" && typeof block.text === "string") {
+                parts.push({ text: block.text });
+            } else if ((block.type === "image" || block.type === "document") && block.source?.type === "base64") {
+                parts.push({ inlineData: { mimeType: block.source.media_type ?? "", data: block.source.data ?? "" } });
+            } else if ((block.type === "image" || block.type === "document") && block.source?.type === "url") {
+                parts.push({ fileData: { fileUri: block.source.url ?? "" } });
+            } else if (block.type === "document" && block.source?.type === "text") {
+                parts.push({ text: block.source.data ?? "" });
+            } else {
+                warnings.push({
+                    path: location,
+                    message: `"${block.type}" content blocks cannot be imported and were dropped.`,
+                    change: "dropped",
+                });
+            }
+        }
+        return parts;
+    }
+
+    /**
+     * Converts an Anthropic Messages API request to a Gemini API generation request.
+     * @param {AnthropicMessagesRequest} messagesRequest - The messages request to convert.
+     * @param {ConversionWarning[]} warnings - Collects warnings about data that could not be represented.
+     * @returns {GenerateContentRequest} The equivalent generation request.
+     */
+    function convertAnthropicRequest(
+        messagesRequest: AnthropicMessagesRequest,
+        warnings: ConversionWarning[]
+    ): GenerateContentRequest {
+        const systemParts = convertAnthropicContent(messagesRequest.system ?? null, "system", warnings);
+
+        const contents: Content[] = [];
+        // Tool results only have the id of the tool use they answer, so the function name is looked up by id
+        const functionNames = new Map<string, string>();
+        for (let i = 0; i < messagesRequest.messages.length; i++) {
+            const message = messagesRequest.messages[i];
+            contents.push({
+                role: message.role === "assistant" ? "model" : "user",
+                parts: convertAnthropicContent(message.content, `messages[${i}]`, warnings, functionNames),
+            });
+        }
+
+        const tools: Tool[] = [];
+        const functionDeclarations: FunctionDeclaration[] = [];
+        const anthropicTools = messagesRequest.tools ?? [];
+        for (let i = 0; i < anthropicTools.length; i++) {
+            const tool = anthropicTools[i];
+            if (tool.input_schema) {
+                functionDeclarations.push({
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.input_schema,
+                });
+            } else if (tool.type?.startsWith("web_search")) {
+                tools.push({ googleSearch: {} });
+            } else if (tool.type?.startsWith("code_execution")) {
+                tools.push({ codeExecution: {} });
+            } else {
+                warnings.push({
+                    path: `tools[${i}]`,
+                    message: `"${tool.type ?? tool.name}" tools cannot be imported and were dropped.`,
+                    change: "dropped",
+                });
+            }
+        }
+        if (functionDeclarations.length > 0) {
+            tools.push({ functionDeclarations });
+        }
+
+        return {
+            model: messagesRequest.model,
+            contents,
+            tools,
+            systemInstruction: systemParts.length > 0 ? { role: "system", parts: systemParts } : undefined,
+            generationConfig: {
+                temperature: messagesRequest.temperature,
+                topP: messagesRequest.top_p,
+                topK: messagesRequest.top_k,
+                maxOutputTokens: messagesRequest.max_tokens,
+                stopSequences: messagesRequest.stop_sequences,
+            },
+        };
+    }
+
+    /**
+     * Checks whether a request with a `messages` array is an Anthropic Messages API request
+     * rather than an OpenAI Chat Completions request.
+     * @param {any} request - The request to check.
+     * @returns {boolean} True if the request uses Anthropic-only fields or content blocks.
+     */
+    function isAnthropicRequest(request: any): request is AnthropicMessagesRequest {
+        if ("system" in request || "stop_sequences" in request || "top_k" in request) return true;
+        if (typeof request.model === "string" && request.model.startsWith("claude")) return true;
+
+        for (const message of request.messages ?? []) {
+            if (!Array.isArray(message?.content)) continue;
+            for (const block of message.content) {
+                if (ANTHROPIC_ONLY_BLOCK_TYPES.includes(block?.type)) return true;
+            }
+        }
+        return false;
+    }
+
+    // Content block types that only exist in the Anthropic Messages API
+    const ANTHROPIC_ONLY_BLOCK_TYPES = ["tool_use", "tool_result", "thinking", "redacted_thinking", "document"];
+
+    interface ConvertOptions {
+        /** Collects warnings about data that could not be represented in the created prompt. */
+        warnings?: ConversionWarning[];
+        /** The id of the format to convert from. Detected from the data when not given. */
+        format?: string;
+        /** The title, description and tags of the created prompt. The title replaces the prompt name. */
+        metadata?: PromptMetadata;
+    }
+
+    /** A warning about data that could not be fully represented in the created prompt. */
+    interface ConversionWarning {
+        /** JSON path of the field, e.g. "contents[0].parts[1]". Empty for the input as a whole. */
+        path: string;
+        message: string;
+        /** Set when the field is not imported at all, so that it is also listed as a dropped field. */
+        change?: "dropped";
+    }
+
+    interface PromptMetadata {
+        title?: string;
+        description?: string;
+        tags?: string[];
+    }
+
+    /**
+     * A prompt format that can be imported. Register additional formats with `aiStudioExt.registerPromptFormat`.
+     */
+    interface PromptFormatAdapter {
+        /** Unique id of the format, e.g. "openai". */
+        id: string;
+        /** Name of the format shown in the Import dialog. */
+        name: string;
+        /**
+         * Scores how likely it is that the data is in this format.
+         * @returns A score from 0 (not this format) to 1 (certainly this format).
+         */
+        detect(data: any): number;
+        /**
+         * Converts the data to a MakerSuite prompt. Formats that can be expressed as a Gemini API request should
+         * convert to one and return `convertPromptData(promptName, request, { format: "gemini", warnings })`.
+         */
+        convert(promptName: string, data: any, warnings: ConversionWarning[]): any;
+        /** Summarizes the data in a few words, e.g. "3 messages, model gpt-4o". */
+        describe(data: any): string;
+        /** Checks the structure of the data before converting it, returning the problems found. */
+        validate?(data: any): { path: string; message: string }[];
+        /** The top-level fields the format reads. Other fields are reported as dropped. */
+        fields?: string[];
+        /** Reads the title, description and tags stored in the data, if the format has them. */
+        readMetadata?(data: any): PromptMetadata;
+    }
+
+    interface DetectedPromptFormat {
+        id: string;
+        name: string;
+        score: number;
+        description: string;
+    }
+
+    /**
+     * Checks whether a value is a JSON object.
+     * @param {any} value - The value to check.
+     * @returns {boolean} True if the value is an object and not an array.
+     */
+    function isJsonObject(value: any): boolean {
+        return value != null && typeof value === "object" && !Array.isArray(value);
+    }
+
+    /**
+     * Summarizes the number of items and the model of a request, e.g. "3 messages, model gpt-4o".
+     * @param {number} count - The number of turns.
+     * @param {string} noun - What the turns are called in the format.
+     * @param {any} model - The model of the request, if any.
+     * @returns {string} The summary.
+     */
+    function describeTurns(count: number, noun: string, model: any): string {
+        const description = `${count} ${noun}${count === 1 ? "" : "s"}`;
+        return typeof model === "string" && model ? `${description}, model ${model.replace(/^models\//, "")}` : description;
+    }
+
+    /**
+     * Reads `title`, `description` and `tags` fields from an object.
+     * @param {any} source - The object to read, e.g. the `metadata` of an OpenAI request.
+     * @returns {PromptMetadata} The fields found. Tags may be a list or a comma-separated string.
+     */
+    function readMetadataFields(source: any): PromptMetadata {
+        const metadata: PromptMetadata = {};
+        if (!isJsonObject(source)) return metadata;
+
+        if (typeof source.title === "string" && source.title.trim()) metadata.title = source.title.trim();
+        if (typeof source.description === "string" && source.description.trim()) {
+            metadata.description = source.description.trim();
+        }
+
+        const tags = typeof source.tags === "string" ? source.tags.split(",") : source.tags;
+        if (Array.isArray(tags)) {
+            const cleaned: string[] = [];
+            for (const tag of tags) {
+                if (typeof tag === "string" && tag.trim()) cleaned.push(tag.trim());
+            }
+            if (cleaned.length > 0) metadata.tags = cleaned;
+        }
+        return metadata;
+    }
+
+    /**
+     * Checks that a list of turns is an array of objects.
+     * @param {any} turns - The list to check. A missing list is allowed.
+     * @param {string} path - The JSON path of the list, e.g. "contents".
+     * @param {string} noun - What the turns are called in the format.
+     * @param {(turn: any) => string | null} check - Checks a single turn, returning a problem or null.
+     * @returns {{ path: string; message: string }[]} The problems found.
+     */
+    function validateTurns(
+        turns: any,
+        path: string,
+        noun: string,
+        check: (turn: any) => string | null
+    ): { path: string; message: string }[] {
+        if (turns === undefined) return [];
+        if (!Array.isArray(turns)) return [{ path, message: `Expected a list of ${noun}s.` }];
+
+        const problems: { path: string; message: string }[] = [];
+        for (let i = 0; i < turns.length; i++) {
+            const message = isJsonObject(turns[i]) ? check(turns[i]) : `Expected a ${noun} object.`;
+            if (message) problems.push({ path: `${path}[${i}]`, message });
+        }
+        return problems;
+    }
+
+    // Fields that only exist in OpenAI Chat Completions requests
+    const OPENAI_ONLY_FIELDS = [
+        "max_completion_tokens",
+        "response_format",
+        "n",
+        "presence_penalty",
+        "frequency_penalty",
+        "logprobs",
+        "top_logprobs",
+        "seed",
+    ];
+
+    /**
+     * The registered prompt formats, in the order they were registered.
+     */
+    const promptFormats: PromptFormatAdapter[] = [
+        {
+            id: "gemini",
+            name: "Gemini API (generateContent)",
+            detect: (data) => {
+                if (!isJsonObject(data) || "messages" in data || "chunkedPrompt" in data) return 0;
+                if (Array.isArray(data.contents)) {
+                    return data.contents.every((content: any) => Array.isArray(content?.parts)) ? 0.9 : 0.7;
+                }
+                return "generationConfig" in data || "systemInstruction" in data ? 0.5 : 0;
+            },
+            convert: (promptName, data, warnings) => convertPromptAPI(promptName, data, warnings),
+            describe: (data) => describeTurns(data.contents?.length ?? 0, "content", data.model),
+            validate: (data) =>
+                validateTurns(data.contents, "contents", "content", (content) =>
+                    Array.isArray(content.parts) ? null : `Expected "parts" to be a list of parts.`
+                ),
+            fields: [
+                "model",
+                "contents",
+                "systemInstruction",
+                "generationConfig",
+                "safetySettings",
+                "tools",
+                "toolConfig",
+            ],
+        },
+        {
+            id: "aiStudio",
+            name: "AI Studio prompt",
+            detect: (data) => {
+                if (!isJsonObject(data) || "messages" in data || "contents" in data) return 0;
+                if (isJsonObject(data.chunkedPrompt)) return 0.9;
+                return isJsonObject(data.runSettings) ? 0.6 : 0;
+            },
+            convert: (promptName, data, warnings) => convertPromptStudio(promptName, data, warnings),
+            describe: (data) => describeTurns(data.chunkedPrompt?.chunks?.length ?? 0, "chunk", data.runSettings?.model),
+            validate: (data) => [
+                ...validateTurns(data.chunkedPrompt?.chunks, "chunkedPrompt.chunks", "chunk", () => null),
+                ...validateTurns(data.chunkedPrompt?.pendingInputs, "chunkedPrompt.pendingInputs", "chunk", () => null),
+            ],
+            fields: ["runSettings", "systemInstruction", "chunkedPrompt", "title", "description", "tags"],
+            readMetadata: (data) => readMetadataFields(data),
+        },
+        {
+            id: "openai",
+            name: "OpenAI Chat Completions",
+            detect: (data) => {
+                if (!isJsonObject(data) || !Array.isArray(data.messages)) return 0;
+                if (isAnthropicRequest(data)) return 0.2;
+                for (const field of OPENAI_ONLY_FIELDS) {
+                    if (field in data) return 0.9;
+                }
+                return 0.6;
+            },
+            convert: (promptName, data, warnings) =>
+                convertPromptAPI(promptName, convertOpenAIRequest(data, warnings), warnings),
+            describe: (data) => describeTurns(data.messages.length, "message", data.model),
+            validate: (data) =>
+                validateTurns(data.messages, "messages", "message", (message) =>
+                    typeof message.role === "string" ? null : `Expected "role" to be a string.`
+                ),
+            fields: [
+                "model",
+                "messages",
+                "temperature",
+                "top_p",
+                "max_tokens",
+                "stop",
+                "tools",
+                "metadata",
+                ...OPENAI_ONLY_FIELDS,
+            ],
+            readMetadata: (data) => readMetadataFields(data.metadata),
+        },
+        {
+            id: "anthropic",
+            name: "Anthropic Messages",
+            detect: (data) => {
+                if (!isJsonObject(data) || !Array.isArray(data.messages)) return 0;
+                return isAnthropicRequest(data) ? 0.85 : 0.3;
+            },
+            convert: (promptName, data, warnings) =>
+                convertPromptAPI(promptName, convertAnthropicRequest(data, warnings), warnings),
+            describe: (data) => describeTurns(data.messages.length, "message", data.model),
+            validate: (data) =>
+                validateTurns(data.messages, "messages", "message", (message) =>
+                    typeof message.role === "string" ? null : `Expected "role" to be a string.`
+                ),
+            fields: ["model", "messages", "system", "max_tokens", "stop_sequences", "temperature", "top_k", "top_p", "tools"],
+        },
+    ];
+
+    /**
+     * Registers a prompt format for the Import dialog, replacing any format with the same id.
+     * @param {PromptFormatAdapter} adapter - The format to register.
+     */
+    function registerPromptFormat(adapter: PromptFormatAdapter): void {
+        if (!adapter?.id || typeof adapter.detect !== "function" || typeof adapter.convert !== "function") {
+            throw new Error("A prompt format needs an id, a detect function and a convert function");
+        }
+
+        const index = promptFormats.findIndex((format) => format.id === adapter.id);
+        if (index === -1) {
+            promptFormats.push(adapter);
+        } else {
+            promptFormats[index] = adapter;
+        }
+    }
+
+    /**
+     * Lists the registered prompt formats.
+     * @returns {{ id: string; name: string }[]} The id and name of each format.
+     */
+    function getPromptFormats(): { id: string; name: string }[] {
+        const formats: { id: string; name: string }[] = [];
+        for (const format of promptFormats) {
+            formats.push({ id: format.id, name: format.name });
+        }
+        return formats;
+    }
+
+    /**
+     * Scores the data against every registered prompt format.
+     * @param {any} data - The data to detect the format of.
+     * @returns {DetectedPromptFormat[]} The formats the data may be in, most likely first.
+     */
+    function detectPromptFormat(data: any): DetectedPromptFormat[] {
+        const detected: DetectedPromptFormat[] = [];
+        for (const format of promptFormats) {
+            let score = 0;
+            try {
+                score = format.detect(data);
+            } catch (e) {
+                console.debug(`Failed to detect prompt format "${format.id}":`, e);
+            }
+            if (!(score > 0)) continue;
+
+            let description = "";
+            try {
+                description = format.describe?.(data) ?? "";
+            } catch (e) {
+                console.debug(`Failed to describe prompt format "${format.id}":`, e);
+            }
+            detected.push({ id: format.id, name: format.name, score: Math.min(score, 1), description });
+        }
+        return detected.sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Converts a generation request to a prompt for the MakerSuite API or AI Studio API.
+     * @param {string} promptName - The name of the prompt.
+     * @param {GenerateContentRequest | AIStudioFile | OpenAIChatRequest | AnthropicMessagesRequest} generationRequest - The generation request to convert.
+     * @param {ConvertOptions} options - Conversion options, such as the format and an array to collect warnings in.
+     * @returns {any} The converted prompt, or null if the format of the request is not recognized.
+     */
+    function convertPromptData(
+        promptName: string,
+        generationRequest: GenerateContentRequest | AIStudioFile | OpenAIChatRequest | AnthropicMessagesRequest,
+        options: ConvertOptions = {}
+    ): any {
+        const warnings = options.warnings ?? [];
+
+        let format: PromptFormatAdapter | undefined;
+        if (options.format) {
+            format = promptFormats.find((adapter) => adapter.id === options.format);
+            if (!format) throw new Error(`Unknown prompt format: ${options.format}`);
+        } else {
+            const detected = detectPromptFormat(generationRequest);
+            format = detected.length > 0 ? promptFormats.find((adapter) => adapter.id === detected[0].id) : undefined;
+        }
+        if (!format) return null;
+
+        const prompt = format.convert(promptName, generationRequest, warnings);
+        if (prompt && options.metadata) applyPromptMetadata(prompt, options.metadata, warnings);
+        return prompt;
+    }
+
+    /**
+     * Reads the title, description and tags stored in prompt data, such as the `metadata` of an OpenAI request.
+     * @param {any} data - The prompt data.
+     * @param {string} formatId - The id of the format of the data. Detected from the data when not given.
+     * @returns {PromptMetadata} The metadata found, empty if the format has none.
+     */
+    function readPromptMetadata(data: any, formatId?: string): PromptMetadata {
+        const id = formatId ?? detectPromptFormat(data)[0]?.id;
+        const format = promptFormats.find((adapter) => adapter.id === id);
+        try {
+            return format?.readMetadata?.(data) ?? {};
+        } catch (e) {
+            console.debug(`Failed to read the metadata of prompt format "${id}":`, e);
+            return {};
+        }
+    }
+
+    interface ImportDiagnostic {
+        severity: "error" | "warning";
+        /** JSON path of the field, e.g. "contents[0].parts[1]". Empty for the input as a whole. */
+        path: string;
+        message: string;
+        /** 1-based line of the field in the pasted text, if known. */
+        line?: number;
+        /** 1-based column of the field in the pasted text, if known. */
+        column?: number;
+    }
+
+    interface ImportFieldChange {
+        /** JSON path of the field, e.g. "generationConfig.seed". */
+        path: string;
+        change: "dropped" | "defaulted";
+        message: string;
+        line?: number;
+        column?: number;
+    }
+
+    interface ImportDiagnostics {
+        /** The format the input was converted from, or null if it was not recognized. */
+        format: DetectedPromptFormat | null;
+        errors: ImportDiagnostic[];
+        warnings: ImportDiagnostic[];
+        /** Fields of the input that will not be imported, and settings that will use AI Studio's defaults. */
+        fieldChanges: ImportFieldChange[];
+        /** The converted prompt, or null if the input cannot be imported. */
+        prompt: any | null;
+    }
+
+    interface DiagnoseOptions {
+        /** The id of the format to convert from. Detected from the data when not given. */
+        format?: string;
+        /** The JSON text the data was parsed from, used to add line and column numbers. */
+        text?: string;
+        /** The title, description and tags of the created prompt, as passed to `convertPromptData`. */
+        metadata?: PromptMetadata;
+    }
+
+    // Run settings that AI Studio fills in with its defaults when they are not given, as [config position, name]
+    const DEFAULTED_RUN_SETTINGS: [number, string][] = [
+        [2, "model"],
+        [0, "temperature"],
+        [4, "topP"],
+        [5, "topK"],
+        [6, "maxOutputTokens"],
+    ];
+
+    /**
+     * Converts prompt data like `convertPromptData`, and reports everything that prevents the import or
+     * changes the data on the way: errors, warnings, and fields that are dropped or left to AI Studio's defaults.
+     * @param {string} promptName - The name of the prompt.
+     * @param {any} data - The prompt data to convert.
+     * @param {DiagnoseOptions} options - The format to convert from, and the text the data was parsed from.
+     * @returns {ImportDiagnostics} The diagnostics, including the converted prompt if the data can be imported.
+     */
+    function diagnosePromptData(promptName: string, data: any, options: DiagnoseOptions = {}): ImportDiagnostics {
+        const diagnostics: ImportDiagnostics = { format: null, errors: [], warnings: [], fieldChanges: [], prompt: null };
+        const addError = (path: string, message: string) => diagnostics.errors.push({ severity: "error", path, message });
+
+        // Find the format to convert from
+        let adapter: PromptFormatAdapter | undefined;
+        if (options.format) {
+            adapter = promptFormats.find((format) => format.id === options.format);
+            if (!adapter) addError("", `Unknown prompt format: ${options.format}`);
+        } else {
+            const detected = detectPromptFormat(data);
+            if (detected.length > 0) {
+                adapter = promptFormats.find((format) => format.id === detected[0].id);
+            } else {
+                const names = getPromptFormats().map((format) => format.name);
+                addError("", `This JSON format is not recognized as a valid prompt. Supported formats: ${names.join(", ")}.`);
+            }
+        }
+
+        if (adapter) {
+            let description = "";
+            try {
+                description = adapter.describe?.(data) ?? "";
+            } catch (e) {
+                console.debug(`Failed to describe prompt format "${adapter.id}":`, e);
+            }
+            diagnostics.format = { id: adapter.id, name: adapter.name, score: 1, description };
+
+            for (const problem of adapter.validate?.(data) ?? []) {
+                addError(problem.path, problem.message);
+            }
+        }
+
+        // Convert, unless the data is known to be invalid
+        if (adapter && diagnostics.errors.length === 0) {
+            const warnings: ConversionWarning[] = [];
+            try {
+                diagnostics.prompt = adapter.convert(promptName, data, warnings);
+                if (!diagnostics.prompt) addError("", "The data could not be converted to a prompt.");
+                else if (options.metadata) applyPromptMetadata(diagnostics.prompt, options.metadata, warnings);
+            } catch (e) {
+                console.debug("Error converting prompt data:", e);
+                addError("", `The data could not be converted to a prompt: ${e instanceof Error ? e.message : e}`);
+            }
+
+            for (const { path, message, change } of warnings) {
+                diagnostics.warnings.push({ severity: "warning", path, message });
+                if (change) diagnostics.fieldChanges.push({ path, change, message });
+            }
+        }
+
+        if (adapter?.fields && isJsonObject(data)) {
+            for (const key of Object.keys(data)) {
+                if (!adapter.fields.includes(key)) {
+                    diagnostics.fieldChanges.push({
+                        path: key,
+                        change: "dropped",
+                        message: `"${key}" is not part of the ${adapter.name} format and was dropped.`,
+                    });
+                }
+            }
+        }
+
+        const config = diagnostics.prompt?.[0]?.[3];
+        if (config) {
+            const prefix = adapter?.id === "aiStudio" ? "runSettings." : "";
+            for (const [position, name] of DEFAULTED_RUN_SETTINGS) {
+                if (config[position] == null) {
+                    diagnostics.fieldChanges.push({
+                        path: `${prefix}${name}`,
+                        change: "defaulted",
+                        message: `Not set; AI Studio's default ${name} will be used.`,
+                    });
+                }
+            }
+            const safetyPath = `${prefix}safetySettings`;
+            if (!diagnostics.fieldChanges.some((fieldChange) => fieldChange.path === safetyPath)) {
+                diagnostics.fieldChanges.push({
+                    path: safetyPath,
+                    change: "defaulted",
+                    message: "Not set; AI Studio's default safety settings will be used.",
+                });
+            }
+        }
+
+        if (options.text) {
+            const offsets = locateJsonPaths(options.text);
+            for (const item of [...diagnostics.errors, ...diagnostics.warnings, ...diagnostics.fieldChanges]) {
+                Object.assign(item, findPathLocation(options.text, offsets, item.path));
+            }
+        }
+        return diagnostics;
+    }
+
+    /**
+     * Finds the offset of every value in a JSON text.
+     * @param {string} text - The JSON text, which must be valid JSON.
+     * @returns {Map<string, number>} The offset of each value, by JSON path (e.g. "contents[0].parts").
+     */
+    function locateJsonPaths(text: string): Map<string, number> {
+        const offsets = new Map<string, number>();
+        let i = 0;
+
+        const skipWhitespace = () => {
+            while (i < text.length && /\s/.test(text[i])) i++;
+        };
+        const readString = (): string => {
+            const start = i;
+            i++;
+            while (i < text.length && text[i] !== '"') {
+                i += text[i] === "\\" ? 2 : 1;
+            }
+            i++;
+            return JSON.parse(text.slice(start, i));
+        };
+        const readValue = (path: string): void => {
+            skipWhitespace();
+            offsets.set(path, i);
+            if (text[i] === "{") {
+                i++;
+                skipWhitespace();
+                while (i < text.length && text[i] !== "}") {
+                    const key = readString();
+                    skipWhitespace();
+                    i++; // ":"
+                    readValue(path ? `${path}.${key}` : key);
+                    skipWhitespace();
+                    if (text[i] === ",") i++;
+                    skipWhitespace();
+                }
+                i++;
+            } else if (text[i] === "[") {
+                i++;
+                skipWhitespace();
+                for (let index = 0; i < text.length && text[i] !== "]"; index++) {
+                    readValue(`${path}[${index}]`);
+                    skipWhitespace();
+                    if (text[i] === ",") i++;
+                    skipWhitespace();
+                }
+                i++;
+            } else if (text[i] === '"') {
+                readString();
+            } else {
+                while (i < text.length && !/[\s,\]}]/.test(text[i])) i++;
+            }
+        };
+
+        try {
+            readValue("");
+        } catch (e) {
+            console.debug("Failed to locate JSON paths:", e);
+        }
+        return offsets;
+    }
+
+    /**
+     * Finds the line and column of a JSON path, or of its closest located parent.
+     * @param {string} text - The JSON text.
+     * @param {Map<string, number>} offsets - The offsets found by `locateJsonPaths`.
+     * @param {string} path - The JSON path to find.
+     * @returns {{ line?: number; column?: number }} The 1-based line and column, if the path (or a parent) was found.
+     */
+    function findPathLocation(
+        text: string,
+        offsets: Map<string, number>,
+        path: string
+    ): { line?: number; column?: number } {
+        let current = path;
+        while (current && !offsets.has(current)) {
+            const parent = current.replace(/(\.[^.[\]]*|\[\d+\])$/, "");
+            if (parent === current) return {};
+            current = parent;
+        }
+        if (!current) return {};
+
+        const before = text.slice(0, offsets.get(current));
+        const lines = before.split("\n");
+        return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+    }
+
+    /**
+     * Finds the key of a number in a "*_TO_NUMBER" lookup table.
+     * @param {Partial<Record<string, number>>} table - The lookup table to search.
+     * @param {number} value - The number to find.
+     * @returns {string | undefined} The key for the number, if any.
+     */
+    function findKeyForNumber(table: Partial<Record<string, number>>, value: number): string | undefined {
+        for (const [key, number] of Object.entries(table)) {
+            if (number === value) return key;
+        }
+        return undefined;
     }
 
     /**
-     * Converts a response schema to a number.
-     * @param {ResponseSchema} responseSchema - The response schema to convert.
-     * @param {string} name - The name of the schema.
-     * @returns {any} The converted schema.
+     * Converts a MakerSuite response schema back to a Gemini API schema.
+     * @param {any[]} schema - The MakerSuite schema to convert.
+     * @returns {Schema} The converted schema.
      */
-    function convertResponseSchema(responseSchema: any): any {
-        const type = responseSchema.type.toLocaleLowerCase();
-        const schema = [
-            SCHEMA_TYPE_TO_NUMBER[type as SchemaType],
-            null,
-            responseSchema.description ?? null,
-            responseSchema.nullable ?? null,
-            type === SchemaType.STRING && responseSchema.enum ? responseSchema.enum : null,
-            type === SchemaType.ARRAY ? convertResponseSchema(responseSchema.items) : null,
-            type === SchemaType.OBJECT
-                ? Object.entries(responseSchema.properties).map(([key, value]) => [key, convertResponseSchema(value)])
-                : null,
-            responseSchema.type === SchemaType.OBJECT && responseSchema.required ? responseSchema.required : null,
-        ];
-        // Remove null values from the end of the array
-        for (let i = schema.length - 1; i >= 0; i--) {
-            if (schema[i] != null) {
-                schema.splice(i + 1, schema.length - i - 1);
-                break;
+    function decodeResponseSchema(schema: any[]): Schema {
+        const decoded: any = {};
+        if (schema[0] != null) decoded.type = findKeyForNumber(SCHEMA_TYPE_TO_NUMBER, schema[0]);
+        if (schema[1] != null) decoded.format = schema[1];
+        if (schema[23] != null) decoded.title = schema[23];
+        if (schema[2] != null) decoded.description = schema[2];
+        if (schema[3] != null) decoded.nullable = !!schema[3];
+        if (schema[4] != null) decoded.enum = schema[4];
+        if (schema[5] != null) decoded.items = decodeResponseSchema(schema[5]);
+        if (schema[21] != null) decoded.minItems = schema[21];
+        if (schema[20] != null) decoded.maxItems = schema[20];
+        if (schema[6] != null) {
+            decoded.properties = {};
+            for (const [key, value] of schema[6]) {
+                decoded.properties[key] = decodeResponseSchema(value);
+            }
+        }
+        if (schema[7] != null) decoded.required = schema[7];
+        if (schema[22] != null) decoded.propertyOrdering = schema[22];
+        if (schema[8] != null) decoded.minProperties = schema[8];
+        if (schema[9] != null) decoded.maxProperties = schema[9];
+        if (schema[10] != null) decoded.minimum = schema[10];
+        if (schema[11] != null) decoded.maximum = schema[11];
+        if (schema[12] != null) decoded.minLength = schema[12];
+        if (schema[13] != null) decoded.maxLength = schema[13];
+        if (schema[14] != null) decoded.pattern = schema[14];
+        if (schema[17] != null) {
+            decoded.anyOf = [];
+            for (const member of schema[17]) {
+                decoded.anyOf.push(decodeResponseSchema(member));
             }
         }
-        return schema;
+        return decoded;
     }
 
-    const UNKNOWN_PAD = [
-        // Unsure what this is
-        [null, null, 7, 1],
-        [null, null, 8, 2],
-        [null, null, 9, 3],
-        [null, null, 10, 4],
-        [null, null, 11, 5],
-    ];
-
     /**
-     * Converts a generation request to a prompt for the MakerSuite API.
-     * @param {string} promptName - The name of the prompt.
-     * @param {GenerateContentRequest} generationRequest - The generation request to convert.
-     * @returns {any} The converted prompt.
+     * Converts a MakerSuite prompt config back to AI Studio run settings.
+     * @param {any[]} config - The MakerSuite config to convert.
+     * @returns {RunSettings} The run settings.
      */
-    function convertPromptAPI(promptName: string, generationRequest: GenerateContentRequest): any {
-        const config = [
-            generationRequest.generationConfig?.temperature ?? null, //1
-            null, // Stop sequences
-            generationRequest.model ? `models/${generationRequest.model}` : null, //"models/gemini-2.0-flash",
-            null,
-            generationRequest.generationConfig?.topP ?? null, //0.95,
-            generationRequest.generationConfig?.topK ?? null, //40,
-            generationRequest.generationConfig?.maxOutputTokens ?? null, //8192,
-            UNKNOWN_PAD,
-            generationRequest.generationConfig?.responseMimeType ??
-                (generationRequest.generationConfig?.responseSchema ? "application/json" : "text/plain"),
-            0,
-            generationRequest.generationConfig?.responseSchema
-                ? convertResponseSchema(generationRequest.generationConfig.responseSchema)
-                : null,
-            null,
-            null,
-            1,
-            0,
-            null,
-            null,
-            0,
-            0,
-        ];
+    function decodeRunSettings(config: any[]): RunSettings {
+        const runSettings: RunSettings = {};
+        if (config[0] != null) runSettings.temperature = config[0];
+        if (config[1] != null && config[1].length > 0) runSettings.endTokens = config[1];
+        if (config[2] != null) runSettings.model = config[2];
+        if (config[4] != null) runSettings.topP = config[4];
+        if (config[5] != null) runSettings.topK = config[5];
+        if (config[6] != null) runSettings.maxOutputTokens = config[6];
 
-        const title = [
-            promptName, // Title
-            null,
-            null,
-            null,
-            null,
-            null,
-            null,
-            null,
-            null,
-            null,
-            [],
-        ];
+        if (config[8] != null) runSettings.responseMimeType = config[8];
+        if (config[9]) runSettings.enableCodeExecution = true;
+        if (config[10] != null) runSettings.responseSchema = decodeResponseSchema(config[10]);
 
-        const outside = [
-            [
-                null, // Prompt id
-                null,
-                null,
-                config,
-                title,
-                null,
-                null,
-                null,
-                null,
-                null,
-                null,
-                null,
-                generationRequest.systemInstruction ? [generationRequest.systemInstruction] : [],
-                [
-                    generationRequest.contents
-                        .map((content) => content.parts.map((part) => convertMessage(content.role, part)))
-                        .flat(),
-                    [["", null, null, null, null, null, null, null, "user"]], // Seems like the user input field
-                ],
-            ],
-        ];
-        return outside;
+        if (config[14]) runSettings.enableSearchAsATool = true;
+        if (config[17]) runSettings.enableBrowseAsATool = true;
+        if (config[18]) runSettings.enableAutoFunctionResponse = true;
+        return runSettings;
     }
 
     /**
-     * Converts a generation request to a prompt for the AI Studio API.
-     * @param {string} promptName - The name of the prompt.
-     * @param {AIStudioFile} generationRequest - The generation request to convert.
-     * @returns {any} The converted prompt.
+     * Converts a MakerSuite prompt chunk back to an AI Studio file chunk.
+     * @param {any[]} chunk - The MakerSuite chunk to convert.
+     * @returns {ChunkedMessage} The AI Studio file chunk.
      */
-    function convertPromptStudio(promptName: string, generationRequest: AIStudioFile): any {
-        const config = [
-            generationRequest.runSettings?.temperature ?? null, //1
-            null, // Stop sequences
-            generationRequest.runSettings?.model ?? null, //"models/gemini-2.0-flash",
-            null,
-            generationRequest.runSettings?.topP ?? null, //0.95,
-            generationRequest.runSettings?.topK ?? null, //40,
-            generationRequest.runSettings?.maxOutputTokens ?? null, //8192,
-            UNKNOWN_PAD,
-            generationRequest.runSettings?.responseMimeType ??
-                (generationRequest.runSettings?.responseSchema ? "application/json" : "text/plain"),
-            0,
-            generationRequest.runSettings?.responseSchema
-                ? convertResponseSchema(generationRequest.runSettings.responseSchema)
-                : null,
-            null,
-            null,
-            1,
-            0,
-            null,
-            null,
-            0,
-            0,
-        ];
+    function decodeChunk(chunk: any[]): ChunkedMessage {
+        return { text: chunk[CHUNK_FIELD.TEXT] ?? "", role: chunk[CHUNK_FIELD.ROLE] ?? "user" };
+    }
 
-        const title = [
-            promptName, // Title
-            null,
-            null,
-            null,
-            null,
-            null,
-            null,
-            null,
-            null,
-            null,
-            [],
-        ];
+    /**
+     * Converts a MakerSuite prompt (as returned by the GetPrompt and CreatePrompt methods) to an AI Studio file.
+     * @param {any[]} prompt - The MakerSuite prompt to convert.
+     * @returns {AIStudioFile} The AI Studio file.
+     */
+    function decodePromptStudio(prompt: any[]): AIStudioFile {
+        const systemTexts: string[] = [];
+        for (const instruction of prompt[12] ?? []) {
+            if (instruction?.[0]) systemTexts.push(instruction[0]);
+        }
 
-        const outside = [
-            [
-                null, // Prompt id
-                null,
-                null,
-                config,
-                title,
-                null,
-                null,
-                null,
-                null,
-                null,
-                null,
-                null,
-                generationRequest.systemInstruction ? [generationRequest.systemInstruction] : [],
-                [
-                    generationRequest.chunkedPrompt?.chunks.map((content) =>
-                        convertMessage(content.role, { text: content.text })
-                    ),
-                    [["", null, null, null, null, null, null, null, "user"]], // Seems like the user input field
-                ],
-            ],
-        ];
-        return outside;
+        const chunks: ChunkedMessage[] = [];
+        for (const chunk of prompt[13]?.[0] ?? []) {
+            chunks.push(decodeChunk(chunk));
+        }
+        const pendingInputs: ChunkedMessage[] = [];
+        for (const chunk of prompt[13]?.[1] ?? []) {
+            pendingInputs.push(decodeChunk(chunk));
+        }
+
+        const studioFile: AIStudioFile = {
+            runSettings: decodeRunSettings(prompt[3] ?? []),
+            chunkedPrompt: { chunks, pendingInputs },
+        };
+        if (systemTexts.length > 0) {
+            studioFile.systemInstruction = { parts: [{ text: systemTexts.join("\n\n") }] };
+        }
+        return studioFile;
     }
 
     /**
-     * Converts a generation request to a prompt for the MakerSuite API or AI Studio API.
-     * @param {string} promptName - The name of the prompt.
-     * @param {GenerateContentRequest | AIStudioFile} generationRequest - The generation request to convert.
-     * @returns {any} The converted prompt.
+     * Converts a MakerSuite prompt (as returned by the GetPrompt and CreatePrompt methods) to a Gemini API request.
+     * Consecutive chunks with the same role are grouped into a single content.
+     * @param {any[]} prompt - The MakerSuite prompt to convert.
+     * @returns {GenerateContentRequest} The generation request.
      */
-    function convertPromptData(promptName: string, generationRequest: GenerateContentRequest | AIStudioFile): any {
-        if ("generationConfig" in generationRequest) {
-            return convertPromptAPI(promptName, generationRequest);
-        } else {
-            return convertPromptStudio(promptName, generationRequest as AIStudioFile);
+    function decodePromptAPI(prompt: any[]): GenerateContentRequest {
+        const studioFile = decodePromptStudio(prompt);
+        const runSettings = studioFile.runSettings;
+
+        const contents: Content[] = [];
+        for (const chunk of studioFile.chunkedPrompt?.chunks ?? []) {
+            const part: Part = { text: chunk.text ?? "" };
+            const lastContent = contents[contents.length - 1];
+            if (lastContent && lastContent.role === chunk.role) {
+                lastContent.parts.push(part);
+            } else {
+                contents.push({ role: chunk.role, parts: [part] });
+            }
         }
+
+        const generationConfig: GenerationConfig = {};
+        if (runSettings.temperature != null) generationConfig.temperature = runSettings.temperature;
+        if (runSettings.endTokens != null) generationConfig.stopSequences = runSettings.endTokens;
+        if (runSettings.topP != null) generationConfig.topP = runSettings.topP;
+        if (runSettings.topK != null) generationConfig.topK = runSettings.topK;
+        if (runSettings.maxOutputTokens != null) generationConfig.maxOutputTokens = runSettings.maxOutputTokens;
+        if (runSettings.responseMimeType != null) generationConfig.responseMimeType = runSettings.responseMimeType;
+        if (runSettings.responseSchema != null) generationConfig.responseSchema = runSettings.responseSchema;
+
+        const tools: Tool[] = [];
+        if (runSettings.functionDeclarations) tools.push({ functionDeclarations: runSettings.functionDeclarations });
+        if (runSettings.enableCodeExecution) tools.push({ codeExecution: {} });
+        if (runSettings.enableSearchAsATool) tools.push({ googleSearch: {} });
+
+        // Built field by field to keep the same key order as the Gemini API documentation
+        const generationRequest = {} as GenerateContentRequest;
+        if (runSettings.model) generationRequest.model = runSettings.model.replace(/^models\//, "");
+        generationRequest.contents = contents;
+        if (studioFile.systemInstruction) generationRequest.systemInstruction = studioFile.systemInstruction;
+        generationRequest.generationConfig = generationConfig;
+        if (runSettings.safetySettings) generationRequest.safetySettings = runSettings.safetySettings;
+        if (tools.length > 0) generationRequest.tools = tools;
+        return generationRequest;
+    }
+
+    /**
+     * Converts a MakerSuite prompt to a Gemini API request or an AI Studio file.
+     * @param {any[]} prompt - The MakerSuite prompt to convert.
+     * @param {ExportFormat} format - The format to convert to.
+     * @returns {GenerateContentRequest | AIStudioFile} The converted prompt.
+     */
+    function exportPromptData(prompt: any[], format: ExportFormat): GenerateContentRequest | AIStudioFile {
+        return format === "generateContent" ? decodePromptAPI(prompt) : decodePromptStudio(prompt);
     }
 
+    type ExportFormat = "generateContent" | "aiStudio";
+
     interface SafetySetting {
         category: HarmCategory;
         threshold: HarmBlockThreshold;
@@ -424,20 +2349,118 @@
     }
 
     interface Content {
-        role: string;
+        /** Optional for system instructions. */
+        role?: string;
         parts: Part[];
     }
 
-    type Part = TextPart;
+    /**
+     * The system instruction shapes accepted by the Gemini SDKs and found in AI Studio files.
+     * The REST API itself only accepts a Content.
+     */
+    type SystemInstruction = string | Part | Part[] | Content;
+
+    type Part =
+        | TextPart
+        | InlineDataPart
+        | FileDataPart
+        | FunctionCallPart
+        | FunctionResponsePart
+        | ExecutableCodePart
+        | CodeExecutionResultPart;
 
     interface TextPart {
         text: string;
+        /** Whether the text is a thought summary of the model. */
+        thought?: boolean;
+    }
+
+    /** Raw media bytes, such as images, audio or PDFs. */
+    interface InlineDataPart {
+        inlineData: {
+            mimeType: string;
+            /** Base64 encoded bytes. */
+            data: string;
+        };
+    }
+
+    /** Media referenced by URI, such as a File API upload or a Cloud Storage object. */
+    interface FileDataPart {
+        fileData: {
+            mimeType?: string;
+            fileUri: string;
+        };
+    }
+
+    interface FunctionCallPart {
+        functionCall: FunctionCall;
+    }
+
+    interface FunctionCall {
+        /** Optional. Matches the call with its response when the model makes several calls at once. */
+        id?: string;
+        name: string;
+        args?: { [k: string]: any };
+    }
+
+    interface FunctionResponsePart {
+        functionResponse: FunctionResponse;
+    }
+
+    interface FunctionResponse {
+        /** Optional. The id of the call this is the response to. */
+        id?: string;
+        name: string;
+        /** The result of the call, by convention in an "output" key, or the error in an "error" key. */
+        response: { [k: string]: any };
+    }
+
+    interface ExecutableCodePart {
+        executableCode: {
+            language: string;
+            code: string;
+        };
+    }
+
+    interface CodeExecutionResultPart {
+        codeExecutionResult: {
+            outcome: string;
+            output?: string;
+        };
     }
 
     interface GenerateContentRequest extends BaseParams {
         contents: Content[];
-        systemInstruction?: string | Part | Content;
+        systemInstruction?: SystemInstruction;
         model?: string;
+        tools?: Tool[];
+        toolConfig?: ToolConfig;
+    }
+
+    interface Tool {
+        functionDeclarations?: FunctionDeclaration[];
+        /** Enables the model to run generated code. Always an empty object. */
+        codeExecution?: {};
+        /** Grounding with Google Search. Always an empty object. */
+        googleSearch?: {};
+        /** Legacy (Gemini 1.5) Grounding with Google Search. */
+        googleSearchRetrieval?: {};
+    }
+
+    interface FunctionDeclaration {
+        name: string;
+        description?: string;
+        /** Schema of the function parameters. Must be an object schema. */
+        parameters?: Schema;
+        /** Schema of the function parameters as JSON Schema, used instead of `parameters`. */
+        parametersJsonSchema?: any;
+    }
+
+    interface ToolConfig {
+        functionCallingConfig?: {
+            mode?: "AUTO" | "ANY" | "NONE" | "MODE_UNSPECIFIED";
+            allowedFunctionNames?: string[];
+        };
     }
 
     interface GenerationConfig {
@@ -460,6 +2483,10 @@
          * this is limited to `application/json`.
          */
         responseSchema?: ResponseSchema;
+        /**
+         * Output response schema as JSON Schema, used instead of `responseSchema`.
+         */
+        responseJsonSchema?: any;
         /**
          * Presence penalty applied to the next token's logprobs if the token has
          * already been seen in the response.
@@ -479,10 +2506,60 @@
          * logprobs to return at each decoding step in the logprobsResult.
          */
         logprobs?: number;
+        /**
+         * Seed used in decoding. If not set, the request uses a randomly generated seed.
+         */
+        seed?: number;
     }
 
     type ResponseSchema = Schema;
-    type Schema = StringSchema | NumberSchema | IntegerSchema | BooleanSchema | ArraySchema | ObjectSchema;
+
+    /**
+     * A Gemini API schema. Draft-7 JSON Schema is also accepted on import, and normalized to this subset.
+     */
+    interface Schema {
+        /** Optional when `anyOf` is given. Uppercase types ("OBJECT") are accepted on import. */
+        type?: SchemaType;
+        /** Optional. The format of the data, e.g. "enum" or "date-time" for strings, "int32" for integers. */
+        format?: string;
+        /** Optional. The title of the schema. */
+        title?: string;
+        /** Optional. Description of the value. */
+        description?: string;
+        /** If true, the value can be null. */
+        nullable?: boolean;
+        /** If present, limits the result to one of the given values. Non-string values are imported as strings. */
+        enum?: string[];
+        /** A schema describing the entries in the array. */
+        items?: Schema;
+        /** The minimum number of items in the array. */
+        minItems?: number;
+        /** The maximum number of items in the array. */
+        maxItems?: number;
+        /** Describes the properties of the JSON object. */
+        properties?: {
+            [k: string]: Schema;
+        };
+        /**
+         * A list of keys declared in the properties object.
+         * Required properties will always be present in the generated object.
+         */
+        required?: string[];
+        /** The order in which the properties are generated. */
+        propertyOrdering?: string[];
+        minProperties?: number;
+        maxProperties?: number;
+        /** The minimum value of a number or integer. */
+        minimum?: number;
+        /** The maximum value of a number or integer. */
+        maximum?: number;
+        minLength?: number;
+        maxLength?: number;
+        /** A regular expression the string must match. */
+        pattern?: string;
+        /** The value must match at least one of these schemas. */
+        anyOf?: Schema[];
+    }
 
     enum SchemaType {
         /** String type. */
@@ -513,65 +2590,13 @@
         [SchemaType.OBJECT]: 6,
     };
 
-    interface BaseSchema {
-        /** Optional. Description of the value. */
-        description?: string;
-        /** If true, the value can be null. */
-        nullable?: boolean;
-    }
-
-    interface StringSchema extends BaseSchema {
-        type: typeof SchemaType.STRING;
-        /** If present, limits the result to one of the given values. */
-        enum?: string[];
-    }
-
-    interface NumberSchema extends BaseSchema {
-        type: typeof SchemaType.NUMBER;
-        /** Optional. The format of the number. */
-        format?: "float" | "double";
-    }
-
-    interface IntegerSchema extends BaseSchema {
-        type: typeof SchemaType.INTEGER;
-        /** Optional. The format of the number. */
-        format?: "int32" | "int64";
-    }
-
-    interface BooleanSchema extends BaseSchema {
-        type: typeof SchemaType.BOOLEAN;
-    }
-
-    interface ArraySchema extends BaseSchema {
-        type: typeof SchemaType.ARRAY;
-        /** A schema describing the entries in the array. */
-        items: Schema;
-        /** The minimum number of items in the array. */
-        minItems?: number;
-        /** The maximum number of items in the array. */
-        maxItems?: number;
-    }
-
-    interface ObjectSchema extends BaseSchema {
-        type: typeof SchemaType.OBJECT;
-        /** Describes the properties of the JSON object. Must not be empty. */
-        properties: {
-            [k: string]: Schema;
-        };
-        /**
-         * A list of keys declared in the properties object.
-         * Required properties will always be present in the generated object.
-         */
-        required?: string[];
-    }
-
     /***********************************************
      * The is for AI Studio files
      */
 
     interface AIStudioFile {
         runSettings: RunSettings;
-        systemInstruction: TextPart[];
+        systemInstruction?: SystemInstruction;
         chunkedPrompt?: {
             chunks: ChunkedMessage[];
             pendingInputs: ChunkedMessage[];
@@ -580,9 +2605,24 @@
 
     interface ChunkedMessage {
         role: string;
-        text: string;
+        text?: string;
+        inlineImage?: {
+            mimeType: string;
+            data: string;
+        };
+        driveImage?: DriveFile;
+        driveDocument?: DriveFile;
+        driveVideo?: DriveFile;
         tokenCount?: number;
         isEdited?: boolean;
+        /** Whether the chunk is a model thought (thinking block) rather than part of the response. */
+        isThought?: boolean;
+        functionCall?: FunctionCall;
+        functionResponse?: FunctionResponse;
+    }
+
+    interface DriveFile {
+        id: string;
     }
 
     interface RunSettings {
@@ -596,7 +2636,7 @@
         responseMimeType?: string;
         enableCodeExecution?: boolean;
         responseSchema?: ResponseSchema;
-        functionDeclarations?: any[];
+        functionDeclarations?: FunctionDeclaration[];
         enableSearchAsATool?: boolean;
         enableBrowseAsATool?: boolean;
         enableAutoFunctionResponse?: boolean;
@@ -604,18 +2644,171 @@
 
     interface GenerateContentRequest extends BaseParams {
         contents: Content[];
-        systemInstruction?: string | Part | Content;
+        systemInstruction?: SystemInstruction;
+        model?: string;
+    }
+
+    /***********************************************
+     * This is for OpenAI Chat Completions requests
+     */
+
+    interface OpenAIChatRequest {
+        model?: string;
+        messages: OpenAIMessage[];
+        temperature?: number;
+        top_p?: number;
+        /** Deprecated by OpenAI in favor of `max_completion_tokens`, but still widely used. */
+        max_tokens?: number;
+        max_completion_tokens?: number;
+        stop?: string | string[];
+        n?: number;
+        presence_penalty?: number;
+        frequency_penalty?: number;
+        logprobs?: boolean;
+        top_logprobs?: number;
+        seed?: number;
+        response_format?: {
+            type: "text" | "json_object" | "json_schema";
+            json_schema?: {
+                name?: string;
+                schema?: ResponseSchema;
+                strict?: boolean;
+            };
+        };
+        tools?: OpenAITool[];
+    }
+
+    interface OpenAITool {
+        type: "function" | string;
+        function?: {
+            name: string;
+            description?: string;
+            parameters?: Schema;
+        };
+    }
+
+    interface OpenAIMessage {
+        /** "function" is the role of legacy function call results. */
+        role: "system" | "developer" | "user" | "assistant" | "tool" | "function";
+        content: OpenAIMessageContent;
+        name?: string;
+        tool_call_id?: string;
+        tool_calls?: OpenAIToolCall[];
+        /** Legacy function call, before tool calls. */
+        function_call?: OpenAIFunctionCall;
+    }
+
+    interface OpenAIToolCall {
+        id: string;
+        type: "function" | string;
+        function?: OpenAIFunctionCall;
+    }
+
+    interface OpenAIFunctionCall {
+        name: string;
+        /** The arguments, as a JSON string. */
+        arguments: string;
+    }
+
+    type OpenAIMessageContent = string | OpenAIContentPart[] | null;
+
+    interface OpenAIContentPart {
+        /** e.g. "text", "image_url", "input_audio", "file" */
+        type: string;
+        text?: string;
+        image_url?: {
+            /** Either a web URL or a base64 `data:` URL. */
+            url: string;
+            detail?: string;
+        };
+        input_audio?: {
+            /** Base64 encoded audio. */
+            data: string;
+            format: string;
+        };
+        file?: {
+            /** Base64 `data:` URL of the file. */
+            file_data?: string;
+            file_id?: string;
+            filename?: string;
+        };
+    }
+
+    /***********************************************
+     * This is for Anthropic Messages API requests
+     */
+
+    interface AnthropicMessagesRequest {
         model?: string;
+        system?: string | AnthropicContentBlock[];
+        messages: AnthropicMessage[];
+        max_tokens?: number;
+        stop_sequences?: string[];
+        temperature?: number;
+        top_k?: number;
+        top_p?: number;
+        tools?: AnthropicTool[];
+    }
+
+    interface AnthropicMessage {
+        role: "user" | "assistant";
+        content: AnthropicContent;
+    }
+
+    type AnthropicContent = string | AnthropicContentBlock[] | null;
+
+    interface AnthropicContentBlock {
+        /** e.g. "text", "image", "document", "tool_use", "tool_result", "thinking" */
+        type: string;
+        text?: string;
+        /** Source of "image" and "document" blocks. */
+        source?: {
+            type: "base64" | "url" | "text" | string;
+            media_type?: string;
+            data?: string;
+            url?: string;
+        };
+        /** Id of "tool_use" blocks, referenced by the "tool_result" block with the result. */
+        id?: string;
+        /** Name of the tool of "tool_use" blocks. */
+        name?: string;
+        /** Arguments of "tool_use" blocks. */
+        input?: { [k: string]: any };
+        /** The "tool_use" block a "tool_result" block answers. */
+        tool_use_id?: string;
+        /** Output of "tool_result" blocks. */
+        content?: AnthropicContent;
+        is_error?: boolean;
+    }
+
+    interface AnthropicTool {
+        name: string;
+        /** Only set for Anthropic-defined tools, e.g. "web_search_20250305". */
+        type?: string;
+        description?: string;
+        input_schema?: Schema;
     }
 
     // Make commands available globally
     (window as any).aiStudioExt ??= {};
     Object.assign((window as any).aiStudioExt, {
-        sendMakerSuiteRequest,
         createMakerSuitePrompt,
+        fetchMakerSuitePrompt,
         convertPromptData,
-        findUrl,
-        findApiKeys,
+        diagnosePromptData,
+        readPromptMetadata,
+        decodePromptMetadata,
+        loadAvailableModels,
+        registerModelAliases,
+        setModelAliases,
+        resetModelAliases,
+        getModelAliases,
+        loadModelAliases,
+        registerPromptFormat,
+        getPromptFormats,
+        detectPromptFormat,
+        exportPromptData,
     });
+    loadModelAliases();
     console.debug("new-prompt.ts loaded");
 })();
\ No newline at end of file
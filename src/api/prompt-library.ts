@@ -0,0 +1,196 @@
+/**
+ * Loads and searches the prompts of the user's library with the ListPrompts and GetPrompt methods.
+ *
+ * ListPrompts is paged through until it has no next page. Prompts it returns without their turns (if it only
+ * returns their metadata) can be loaded with `loadPromptContent`, so that their turns can be searched.
+ *
+ * @file prompt-library.ts
+ */
+(function () {
+    interface PromptSummary {
+        /** The "prompts/..." name of the prompt. */
+        name: string;
+        title: string;
+        tags: string[];
+        /** The model without the "models/" prefix, or "" if the prompt uses the default model. */
+        model: string;
+        /** The number of turns. */
+        turnCount: number;
+        /** Whether the system instruction and turns were loaded (and are searched). */
+        hasContent: boolean;
+        /** Lowercase title, tags, system instruction and turns. */
+        searchText: string;
+    }
+
+    interface PromptLibraryFilter {
+        /** Words that must all appear in the title, tags, system instruction or turns. */
+        query?: string;
+        /** The model, without the "models/" prefix. */
+        model?: string;
+    }
+
+    interface LoadLibraryOptions {
+        signal?: AbortSignal;
+        /** Called with the prompts of each page as it is loaded. */
+        onPage?: (prompts: PromptSummary[]) => void;
+    }
+
+    const LIST_PROMPTS_PAGE_SIZE = 100;
+
+    /**
+     * Positions of the fields of the ListPrompts request and response. They have not been confirmed from AI Studio's
+     * own requests and follow the usual layout of list methods: [page_size, page_token] for the request and
+     * [prompts, next_page_token] for the response. A response that does not match is rejected, rather than shown
+     * as an empty or partial library.
+     */
+    const LIST_PROMPTS_REQUEST_FIELD = {
+        PAGE_SIZE: 0,
+        PAGE_TOKEN: 1,
+    };
+    const LIST_PROMPTS_RESPONSE_FIELD = {
+        PROMPTS: 0,
+        NEXT_PAGE_TOKEN: 1,
+    };
+
+    /**
+     * Calls a MakerSuite RPC method with the client of makersuite-client.ts, which is loaded before this script.
+     *
+     * @param {string} method - The RPC method, e.g. "ListPrompts".
+     * @param {any} request - The request message.
+     * @param {AbortSignal} signal - Aborts the request.
+     * @returns {Promise<any>} The response message. Rejects with a `MakerSuiteRpcError`.
+     */
+    function callMakerSuite(method: string, request: any, signal?: AbortSignal): Promise<any> {
+        return (window as any).aiStudioExt.callMakerSuite(method, request, { signal });
+    }
+
+    /**
+     * Loads all prompts of the library of the account the page is using.
+     *
+     * @param {LoadLibraryOptions} options - Abort signal and progress callback.
+     * @returns {Promise<PromptSummary[]>} The prompts, in the order ListPrompts returned them.
+     */
+    async function loadPromptLibrary(options: LoadLibraryOptions = {}): Promise<PromptSummary[]> {
+        const prompts: PromptSummary[] = [];
+        const seenPageTokens = new Set<string>();
+        let pageToken: string | null = null;
+        do {
+            const request: any[] = [];
+            request[LIST_PROMPTS_REQUEST_FIELD.PAGE_SIZE] = LIST_PROMPTS_PAGE_SIZE;
+            request[LIST_PROMPTS_REQUEST_FIELD.PAGE_TOKEN] = pageToken;
+            const response = await callMakerSuite("ListPrompts", request, options.signal);
+            const listedPrompts = response?.[LIST_PROMPTS_RESPONSE_FIELD.PROMPTS] ?? [];
+            const nextPageToken = response?.[LIST_PROMPTS_RESPONSE_FIELD.NEXT_PAGE_TOKEN] ?? null;
+            if (!isListPromptsResponse(response, listedPrompts, nextPageToken)) {
+                console.debug("Unexpected ListPrompts response:", response);
+                throw new Error("The ListPrompts response does not have the expected layout");
+            }
+
+            const page: PromptSummary[] = [];
+            for (const prompt of listedPrompts) {
+                page.push(summarizePrompt(prompt));
+            }
+            prompts.push(...page);
+            options.onPage?.(page);
+
+            // Stop if a page token comes back, rather than loading the same pages forever
+            pageToken = nextPageToken && !seenPageTokens.has(nextPageToken) ? nextPageToken : null;
+            if (pageToken) seenPageTokens.add(pageToken);
+        } while (pageToken);
+        return prompts;
+    }
+
+    /**
+     * Checks a ListPrompts response against the expected layout: a list of prompts named "prompts/...", and a
+     * page token that is a string when there is a next page.
+     *
+     * @param {any} response - The response message.
+     * @param {any} prompts - The field read as the list of prompts.
+     * @param {any} nextPageToken - The field read as the next page token.
+     * @returns {boolean} True if the response has the expected layout.
+     */
+    function isListPromptsResponse(response: any, prompts: any, nextPageToken: any): boolean {
+        if (!Array.isArray(response) || !Array.isArray(prompts)) return false;
+        if (nextPageToken !== null && typeof nextPageToken !== "string") return false;
+        for (const prompt of prompts) {
+            if (typeof prompt?.[0] !== "string" || !prompt[0].startsWith("prompts/")) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Loads a prompt with its system instruction and turns.
+     *
+     * @param {string} name - The "prompts/..." name of the prompt.
+     * @param {AbortSignal} signal - Aborts the request.
+     * @returns {Promise<PromptSummary>} The summary of the full prompt.
+     */
+    async function loadPromptContent(name: string, signal?: AbortSignal): Promise<PromptSummary> {
+        return summarizePrompt(await callMakerSuite("GetPrompt", [name], signal));
+    }
+
+    /**
+     * Summarizes a MakerSuite prompt for listing and searching.
+     *
+     * @param {any[]} prompt - The prompt, as returned by the ListPrompts or GetPrompt methods.
+     * @returns {PromptSummary} The summary.
+     */
+    function summarizePrompt(prompt: any[]): PromptSummary {
+        const ext = (window as any).aiStudioExt;
+        const metadata = ext.decodePromptMetadata(prompt);
+        const tags: string[] = metadata.tags ?? [];
+        const texts: string[] = [metadata.title ?? "", ...tags];
+
+        let model = "";
+        let turnCount = 0;
+        try {
+            const studioFile = ext.exportPromptData(prompt, "aiStudio");
+            model = (studioFile.runSettings?.model ?? "").replace(/^models\//, "");
+            for (const part of studioFile.systemInstruction?.parts ?? []) {
+                if (part.text) texts.push(part.text);
+            }
+            for (const chunk of studioFile.chunkedPrompt?.chunks ?? []) {
+                turnCount++;
+                if (chunk.text) texts.push(chunk.text);
+            }
+        } catch (e) {
+            console.debug("Failed to decode prompt for the library:", prompt?.[0], e);
+        }
+
+        return {
+            name: prompt[0],
+            title: metadata.title ?? "",
+            tags,
+            model,
+            turnCount,
+            hasContent: prompt[12] != null || prompt[13] != null,
+            searchText: texts.join("\n").toLowerCase(),
+        };
+    }
+
+    /**
+     * Finds the prompts matching a search.
+     *
+     * @param {PromptSummary[]} prompts - The prompts of the library.
+     * @param {PromptLibraryFilter} filter - The search words and model to match.
+     * @returns {PromptSummary[]} The matching prompts, in the order of the library.
+     */
+    function searchPromptLibrary(prompts: PromptSummary[], filter: PromptLibraryFilter): PromptSummary[] {
+        const words = (filter.query ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+        const matches: PromptSummary[] = [];
+        for (const prompt of prompts) {
+            if (filter.model && prompt.model !== filter.model) continue;
+            if (words.every((word) => prompt.searchText.includes(word))) matches.push(prompt);
+        }
+        return matches;
+    }
+
+    // Make commands available globally
+    (window as any).aiStudioExt ??= {};
+    Object.assign((window as any).aiStudioExt, {
+        loadPromptLibrary,
+        loadPromptContent,
+        searchPromptLibrary,
+    });
+    console.debug("prompt-library.ts loaded");
+})();
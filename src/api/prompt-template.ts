@@ -0,0 +1,219 @@
+/**
+ * Fills `{{name}}`-style template variables in prompt data before it is imported.
+ *
+ * Placeholders can appear in any string of the prompt (system instruction, turns, schemas...). Defaults and
+ * descriptions are read from an optional top-level `variables` block, either as an object:
+ *
+ *     "variables": { "customer_name": "Acme", "tone": { "default": "friendly", "description": "Tone of the reply" } }
+ *
+ * or as a list of `{ "name": "tone", "default": "friendly", "description": "..." }` entries.
+ *
+ * @file prompt-template.ts
+ */
+(function () {
+    interface TemplateVariable {
+        name: string;
+        /** The value from the `variables` block, if any. */
+        defaultValue?: string;
+        description?: string;
+    }
+
+    // Matches "{{ name }}", capturing the name
+    const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+    /**
+     * Reads the defaults and descriptions of the `variables` block of prompt data.
+     * @param {any} block - The `variables` block, as an object or a list of entries.
+     * @returns {Map<string, TemplateVariable>} The declared variables, by name.
+     */
+    function readVariablesBlock(block: any): Map<string, TemplateVariable> {
+        const declared = new Map<string, TemplateVariable>();
+        if (block == null || typeof block !== "object") return declared;
+
+        const entries: [string, any][] = [];
+        if (Array.isArray(block)) {
+            for (const entry of block) {
+                if (typeof entry?.name === "string") entries.push([entry.name, entry]);
+            }
+        } else {
+            for (const name of Object.keys(block)) {
+                entries.push([name, block[name]]);
+            }
+        }
+
+        for (const [name, value] of entries) {
+            const variable: TemplateVariable = { name };
+            if (value != null && typeof value === "object") {
+                const defaultValue = value.default ?? value.value;
+                if (defaultValue != null) variable.defaultValue = String(defaultValue);
+                if (typeof value.description === "string") variable.description = value.description;
+            } else if (value != null) {
+                variable.defaultValue = String(value);
+            }
+            declared.set(name, variable);
+        }
+        return declared;
+    }
+
+    /**
+     * Calls a function for every string in prompt data, skipping the top-level `variables` block.
+     * @param {any} value - The value to walk.
+     * @param {(text: string) => void} callback - Called with each string.
+     * @param {boolean} isRoot - Whether the value is the prompt data itself.
+     */
+    function forEachString(value: any, callback: (text: string) => void, isRoot = true): void {
+        if (typeof value === "string") {
+            callback(value);
+        } else if (Array.isArray(value)) {
+            for (const item of value) {
+                forEachString(item, callback, false);
+            }
+        } else if (value != null && typeof value === "object") {
+            for (const key of Object.keys(value)) {
+                if (isRoot && key === "variables") continue;
+                forEachString(value[key], callback, false);
+            }
+        }
+    }
+
+    /**
+     * Finds the template variables used in prompt data.
+     * @param {any} data - The prompt data.
+     * @returns {TemplateVariable[]} The variables, in the order they first appear, with their declared defaults.
+     */
+    function findTemplateVariables(data: any): TemplateVariable[] {
+        const declared = readVariablesBlock(data?.variables);
+        const variables: TemplateVariable[] = [];
+        const seen = new Set<string>();
+
+        forEachString(data, (text) => {
+            for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+                const name = match[1];
+                if (seen.has(name)) continue;
+                seen.add(name);
+                variables.push(declared.get(name) ?? { name });
+            }
+        });
+        return variables;
+    }
+
+    /**
+     * Substitutes template variables in prompt data. Variables without a value keep their default from the
+     * `variables` block, or are left as placeholders if they have none.
+     * @param {any} data - The prompt data.
+     * @param {{ [name: string]: string }} values - The values of the variables, by name.
+     * @returns {any} A copy of the data with the variables substituted and the `variables` block removed.
+     */
+    function fillTemplateVariables(data: any, values: { [name: string]: string }): any {
+        const declared = readVariablesBlock(data?.variables);
+        const substitute = (text: string) =>
+            text.replace(PLACEHOLDER_PATTERN, (placeholder, name) => {
+                // Only the given values count, not the properties every object inherits (e.g. "constructor")
+                const value = Object.prototype.hasOwnProperty.call(values, name)
+                    ? values[name]
+                    : declared.get(name)?.defaultValue;
+                return value === undefined ? placeholder : value;
+            });
+
+        const fill = (value: any, isRoot: boolean): any => {
+            if (typeof value === "string") return substitute(value);
+            if (Array.isArray(value)) {
+                const filled: any[] = [];
+                for (const item of value) {
+                    filled.push(fill(item, false));
+                }
+                return filled;
+            }
+            if (value != null && typeof value === "object") {
+                const filled: any = {};
+                for (const key of Object.keys(value)) {
+                    if (isRoot && key === "variables") continue;
+                    filled[key] = fill(value[key], false);
+                }
+                return filled;
+            }
+            return value;
+        };
+        return fill(data, true);
+    }
+
+    /**
+     * Parses CSV text (RFC 4180: comma separated, fields optionally quoted with doubled quotes inside).
+     * @param {string} text - The CSV text.
+     * @returns {string[][]} The rows, each a list of fields. Blank lines are skipped.
+     */
+    function parseCsv(text: string): string[][] {
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let field = "";
+        let quoted = false;
+
+        const endRow = () => {
+            row.push(field);
+            if (row.length > 1 || row[0] !== "") rows.push(row);
+            row = [];
+            field = "";
+        };
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (quoted) {
+                if (char === '"' && text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    field += char;
+                }
+            } else if (char === '"') {
+                quoted = true;
+            } else if (char === ",") {
+                row.push(field);
+                field = "";
+            } else if (char === "\n" || char === "\r") {
+                if (char === "\r" && text[i + 1] === "\n") i++;
+                endRow();
+            } else {
+                field += char;
+            }
+        }
+        if (field !== "" || row.length > 0) endRow();
+        return rows;
+    }
+
+    /**
+     * Reads variable values from CSV text whose first row names the variables.
+     * @param {string} text - The CSV text.
+     * @returns {{ [name: string]: string }[]} The values of each row, by variable name.
+     */
+    function parseTemplateRows(text: string): { [name: string]: string }[] {
+        const rows = parseCsv(text.replace(/^\uFEFF/, ""));
+        if (rows.length === 0) return [];
+
+        const header: string[] = [];
+        for (const name of rows[0]) {
+            header.push(name.trim().replace(/^\{\{\s*|\s*\}\}$/g, ""));
+        }
+
+        const records: { [name: string]: string }[] = [];
+        for (let i = 1; i < rows.length; i++) {
+            const record: { [name: string]: string } = Object.create(null);
+            for (let j = 0; j < header.length; j++) {
+                // Empty cells keep the variable's default
+                if (header[j] && rows[i][j]) record[header[j]] = rows[i][j];
+            }
+            records.push(record);
+        }
+        return records;
+    }
+
+    // Make commands available globally
+    (window as any).aiStudioExt ??= {};
+    Object.assign((window as any).aiStudioExt, {
+        findTemplateVariables,
+        fillTemplateVariables,
+        parseTemplateRows,
+    });
+    console.debug("prompt-template.ts loaded");
+})();
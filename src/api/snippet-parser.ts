@@ -0,0 +1,823 @@
+/**
+ * Extracts a Gemini API request from code snippets, such as AI Studio's "Get code" output.
+ *
+ * Supports:
+ * 1. Python (google-genai and google-generativeai SDKs)
+ * 2. JavaScript / TypeScript (@google/genai and @google/generative-ai SDKs)
+ * 3. curl commands with a JSON body (inline or in a heredoc)
+ *
+ * The snippet is never executed. Literals (strings, numbers, lists, dicts/objects) and SDK helper calls
+ * are evaluated by a small tolerant parser, and anything it does not understand is skipped.
+ *
+ * @file snippet-parser.ts
+ */
+(function () {
+    type SnippetLanguage = "python" | "javascript" | "curl";
+
+    interface ParsedSnippet {
+        language: SnippetLanguage;
+        /** The extracted request, in the Gemini API generateContent format. */
+        request: any;
+    }
+
+    interface Token {
+        type: "string" | "number" | "identifier" | "punctuation";
+        value: string;
+    }
+
+    interface RecordedCall {
+        /** The last segment of the called function's name, e.g. "generate_content". */
+        name: string;
+        /** The full dotted name of the called function, e.g. "client.models.generate_content". */
+        fullName: string;
+        args: any[];
+        kwargs: { [k: string]: any };
+    }
+
+    /**
+     * A reference to something the parser cannot evaluate (e.g. `types.Type.OBJECT` or `os.environ`).
+     * When used as a value it becomes the last segment of its name, which is right for SDK enums.
+     */
+    class UnresolvedReference {
+        constructor(public readonly name: string) {}
+    }
+
+    /**
+     * Thrown when the tokens at the current position are not an expression the parser understands.
+     */
+    class SnippetSyntaxError extends Error {}
+
+    // SDK functions whose arguments describe the request
+    const REQUEST_CALLS = [
+        "generate_content",
+        "generate_content_stream",
+        "generateContent",
+        "generateContentStream",
+        "GenerativeModel",
+        "getGenerativeModel",
+        "start_chat",
+        "startChat",
+        "send_message",
+        "send_message_stream",
+        "sendMessage",
+        "sendMessageStream",
+        "create",
+    ];
+
+    // Placeholder AI Studio puts in "Get code" output where the user's next input goes
+    const INPUT_PLACEHOLDER = "INSERT_INPUT_HERE";
+
+    // Fields of the SDKs' config objects that are top-level fields of a generateContent request
+    const TOP_LEVEL_CONFIG_KEYS = ["systemInstruction", "safetySettings", "tools", "toolConfig", "cachedContent"];
+
+    /**
+     * Splits a Python or JavaScript snippet into tokens, skipping whitespace and comments.
+     * @param {string} text - The snippet to tokenize.
+     * @returns {Token[]} The tokens.
+     */
+    function tokenize(text: string): Token[] {
+        const tokens: Token[] = [];
+        let i = 0;
+
+        while (i < text.length) {
+            const char = text[i];
+
+            // Whitespace
+            if (/\s/.test(char)) {
+                i++;
+                continue;
+            }
+
+            // Comments (Python "#", JavaScript "//" and "/* */")
+            if (char === "#" || (char === "/" && text[i + 1] === "/")) {
+                while (i < text.length && text[i] !== "\n") i++;
+                continue;
+            }
+            if (char === "/" && text[i + 1] === "*") {
+                const end = text.indexOf("*/", i + 2);
+                i = end === -1 ? text.length : end + 2;
+                continue;
+            }
+
+            // Strings, including Python prefixes (r"", f"", b"", ...)
+            const prefixMatch = text.slice(i, i + 3).match(/^([rRbBuUfF]{0,2})(['"`])/);
+            if (prefixMatch && (prefixMatch[1] === "" || !/[\w$]/.test(text[i - 1] ?? ""))) {
+                const raw = prefixMatch[1].toLowerCase().includes("r");
+                const [value, end] = readString(text, i + prefixMatch[1].length, raw);
+                tokens.push({ type: "string", value });
+                i = end;
+                continue;
+            }
+
+            // Numbers
+            const numberMatch = text.slice(i).match(/^\d[\d_]*(\.\d[\d_]*)?([eE][+-]?\d+)?|^\.\d+([eE][+-]?\d+)?/);
+            if (numberMatch) {
+                tokens.push({ type: "number", value: numberMatch[0].replace(/_/g, "") });
+                i += numberMatch[0].length;
+                continue;
+            }
+
+            // Identifiers
+            const identifierMatch = text.slice(i).match(/^[A-Za-z_$][\w$]*/);
+            if (identifierMatch) {
+                tokens.push({ type: "identifier", value: identifierMatch[0] });
+                i += identifierMatch[0].length;
+                continue;
+            }
+
+            // Multi-character punctuation that changes the meaning of "=", "*" or "."
+            const punctuationMatch = text.slice(i).match(/^(===|!==|==|!=|=>|<=|>=|\*\*|\.\.\.)/);
+            const punctuation = punctuationMatch ? punctuationMatch[0] : char;
+            tokens.push({ type: "punctuation", value: punctuation });
+            i += punctuation.length;
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Reads a string literal (single, double, triple-quoted or template) starting at the opening quote.
+     * @param {string} text - The snippet.
+     * @param {number} start - The index of the opening quote.
+     * @param {boolean} raw - Whether escape sequences should be kept as-is (Python raw strings).
+     * @returns {[string, number]} The string value, and the index after the closing quote.
+     */
+    function readString(text: string, start: number, raw: boolean): [string, number] {
+        const quote = text[start];
+        const isTriple = quote !== "`" && text[start + 1] === quote && text[start + 2] === quote;
+        const delimiter = isTriple ? quote.repeat(3) : quote;
+
+        let value = "";
+        let i = start + delimiter.length;
+        while (i < text.length) {
+            if (text.startsWith(delimiter, i)) {
+                return [value, i + delimiter.length];
+            }
+            if (text[i] === "\\" && i + 1 < text.length) {
+                if (raw) {
+                    value += text[i] + text[i + 1];
+                    i += 2;
+                    continue;
+                }
+                const [escaped, length] = readEscape(text, i + 1);
+                value += escaped;
+                i += 1 + length;
+                continue;
+            }
+            // Unterminated single-line string
+            if (!isTriple && quote !== "`" && text[i] === "\n") break;
+            value += text[i];
+            i++;
+        }
+        return [value, i];
+    }
+
+    /**
+     * Reads an escape sequence.
+     * @param {string} text - The snippet.
+     * @param {number} start - The index after the backslash.
+     * @returns {[string, number]} The escaped character(s), and the number of characters consumed after the backslash.
+     */
+    function readEscape(text: string, start: number): [string, number] {
+        const char = text[start];
+        switch (char) {
+            case "n":
+                return ["\n", 1];
+            case "t":
+                return ["\t", 1];
+            case "r":
+                return ["\r", 1];
+            case "\n":
+                // Line continuation
+                return ["", 1];
+            case "x": {
+                const hex = text.slice(start + 1, start + 3);
+                return [String.fromCharCode(parseInt(hex, 16)), 3];
+            }
+            case "u": {
+                const braced = text.slice(start + 1).match(/^\{([0-9a-fA-F]+)\}/);
+                if (braced) return [String.fromCodePoint(parseInt(braced[1], 16)), 1 + braced[0].length];
+                const hex = text.slice(start + 1, start + 5);
+                return [String.fromCharCode(parseInt(hex, 16)), 5];
+            }
+            default:
+                return [char, 1];
+        }
+    }
+
+    /**
+     * Evaluates the literal expressions and SDK calls of a tokenized snippet.
+     */
+    class SnippetEvaluator {
+        private position = 0;
+        /** Values assigned to variables so far, e.g. `model = "gemini-2.0-flash"`. */
+        readonly variables: { [k: string]: any } = {};
+        /** Calls to the SDK functions in REQUEST_CALLS, in the order they appear. */
+        readonly calls: RecordedCall[] = [];
+
+        constructor(private readonly tokens: Token[]) {}
+
+        /**
+         * Walks the whole snippet, recording variable assignments and SDK calls.
+         * Statements the parser does not understand are skipped one token at a time.
+         */
+        run(): void {
+            while (this.position < this.tokens.length) {
+                const start = this.position;
+                try {
+                    this.parseStatement();
+                } catch (e) {
+                    if (!(e instanceof SnippetSyntaxError)) throw e;
+                }
+                if (this.position <= start) this.position = start + 1;
+            }
+        }
+
+        /**
+         * Evaluates the snippet as a single literal, such as a JSON body with trailing commas.
+         * @returns {any} The value of the literal.
+         */
+        evaluateLiteral(): any {
+            return finalizeValue(this.parseExpression());
+        }
+
+        /**
+         * Parses an assignment (`name = value`, `const name = value`) or an expression.
+         */
+        private parseStatement(): void {
+            if (this.peekIdentifier(["const", "let", "var"])) this.position++;
+
+            const token = this.peek();
+            const next = this.peek(1);
+            if (token?.type === "identifier" && (next?.value === "=" || next?.value === ":")) {
+                this.position += 2;
+                if (next.value === ":") {
+                    // Skip type annotations (`config: types.GenerateContentConfig = ...`)
+                    while (this.peek()?.type === "identifier" || [".", "[", "]", ","].includes(this.peek()?.value ?? "")) {
+                        this.position++;
+                    }
+                    if (this.peek()?.value !== "=") return;
+                    this.position++;
+                }
+                this.variables[token.value] = this.parseExpression();
+                return;
+            }
+
+            this.parseExpression();
+        }
+
+        /**
+         * Parses an expression, supporting string concatenation with "+".
+         * @returns {any} The value of the expression.
+         */
+        private parseExpression(): any {
+            let value = this.parseUnary();
+            while (this.peek()?.value === "+") {
+                this.position++;
+                const right = this.parseUnary();
+                if (typeof value === "string" && typeof right === "string") {
+                    value += right;
+                } else if (typeof value === "number" && typeof right === "number") {
+                    value += right;
+                }
+            }
+            return value;
+        }
+
+        /**
+         * Parses a unary expression (negative numbers, `await` and `new`).
+         * @returns {any} The value of the expression.
+         */
+        private parseUnary(): any {
+            if (this.peek()?.value === "-") {
+                this.position++;
+                const value = this.parseUnary();
+                return typeof value === "number" ? -value : value;
+            }
+            if (this.peekIdentifier(["await", "new"])) {
+                this.position++;
+            }
+            return this.parsePostfix();
+        }
+
+        /**
+         * Parses member access, indexing and calls following a primary expression.
+         * @returns {any} The value of the expression.
+         */
+        private parsePostfix(): any {
+            const start = this.peek();
+            let value = this.parsePrimary();
+            let name = start?.type === "identifier" ? start.value : "";
+
+            while (true) {
+                const token = this.peek();
+                if (token?.value === "." && this.peek(1)?.type === "identifier") {
+                    const property = this.peek(1)!.value;
+                    this.position += 2;
+                    name = name ? `${name}.${property}` : property;
+                    value = isPlainObject(value) && property in value ? value[property] : new UnresolvedReference(name);
+                } else if (token?.value === "(") {
+                    value = this.parseCall(name);
+                    name = "";
+                } else if (token?.value === "[") {
+                    this.position++;
+                    const index = this.parseExpression();
+                    this.expect("]");
+                    value = value != null && !(value instanceof UnresolvedReference) ? value[index] : undefined;
+                    name = "";
+                } else {
+                    return value;
+                }
+            }
+        }
+
+        /**
+         * Parses a call's arguments, records it if it is an SDK request call, and evaluates it.
+         * @param {string} fullName - The dotted name of the called function.
+         * @returns {any} The value of the call.
+         */
+        private parseCall(fullName: string): any {
+            this.expect("(");
+            const args: any[] = [];
+            const kwargs: { [k: string]: any } = {};
+
+            while (this.peek() && this.peek()!.value !== ")") {
+                const token = this.peek()!;
+                if (token.type === "identifier" && this.peek(1)?.value === "=") {
+                    // Python keyword argument
+                    this.position += 2;
+                    kwargs[token.value] = this.parseExpression();
+                } else if (token.value === "**" || token.value === "...") {
+                    this.position++;
+                    const spread = this.parseExpression();
+                    if (isPlainObject(spread)) Object.assign(kwargs, spread);
+                    else if (Array.isArray(spread)) args.push(...spread);
+                } else if (token.value === "*") {
+                    this.position++;
+                    const spread = this.parseExpression();
+                    if (Array.isArray(spread)) args.push(...spread);
+                } else {
+                    args.push(this.parseExpression());
+                }
+                if (this.peek()?.value === ",") this.position++;
+                else break;
+            }
+            this.expect(")");
+
+            const name = fullName.split(".").pop() ?? "";
+            if (REQUEST_CALLS.includes(name) && (name !== "create" || fullName.includes("chats"))) {
+                this.calls.push({ name, fullName, args, kwargs });
+            }
+            return evaluateCall(name, args, kwargs);
+        }
+
+        /**
+         * Parses a literal, a list, a dict/object, a parenthesized expression or a variable reference.
+         * @returns {any} The value of the expression.
+         */
+        private parsePrimary(): any {
+            const token = this.peek();
+            if (!token) throw new SnippetSyntaxError("Unexpected end of snippet");
+
+            if (token.type === "string") {
+                this.position++;
+                // Adjacent string literals are concatenated (Python)
+                let value = token.value;
+                while (this.peek()?.type === "string") {
+                    value += this.peek()!.value;
+                    this.position++;
+                }
+                return value;
+            }
+            if (token.type === "number") {
+                this.position++;
+                return Number(token.value);
+            }
+            if (token.type === "identifier") {
+                this.position++;
+                switch (token.value) {
+                    case "True":
+                    case "true":
+                        return true;
+                    case "False":
+                    case "false":
+                        return false;
+                    case "None":
+                    case "null":
+                    case "undefined":
+                        return null;
+                    case "function":
+                    case "lambda":
+                    case "def":
+                    case "class":
+                        throw new SnippetSyntaxError(`Unsupported expression: ${token.value}`);
+                }
+                if (token.value in this.variables) return this.variables[token.value];
+                return new UnresolvedReference(token.value);
+            }
+            if (token.value === "[") return this.parseList("[", "]");
+            if (token.value === "{") return this.parseObject();
+            if (token.value === "(") {
+                // Python tuples are treated as lists, single parenthesized values as themselves
+                const values = this.parseList("(", ")");
+                return values.length === 1 ? values[0] : values;
+            }
+            throw new SnippetSyntaxError(`Unexpected token: ${token.value}`);
+        }
+
+        /**
+         * Parses a comma separated list of expressions.
+         * @param {string} open - The opening bracket.
+         * @param {string} close - The closing bracket.
+         * @returns {any[]} The values in the list.
+         */
+        private parseList(open: string, close: string): any[] {
+            this.expect(open);
+            const values: any[] = [];
+            while (this.peek() && this.peek()!.value !== close) {
+                if (this.peek()!.value === "..." || this.peek()!.value === "*") {
+                    this.position++;
+                    const spread = this.parseExpression();
+                    if (Array.isArray(spread)) values.push(...spread);
+                } else {
+                    values.push(this.parseExpression());
+                }
+                if (this.peek()?.value === ",") this.position++;
+                else break;
+            }
+            this.expect(close);
+            return values;
+        }
+
+        /**
+         * Parses a Python dict or a JavaScript object literal.
+         * @returns {{ [k: string]: any }} The parsed object.
+         */
+        private parseObject(): { [k: string]: any } {
+            this.expect("{");
+            const value: { [k: string]: any } = {};
+            while (this.peek() && this.peek()!.value !== "}") {
+                const token = this.peek()!;
+                if (token.value === "..." || token.value === "**") {
+                    this.position++;
+                    const spread = this.parseExpression();
+                    if (isPlainObject(spread)) Object.assign(value, spread);
+                } else if (token.type === "identifier" && (this.peek(1)?.value === "," || this.peek(1)?.value === "}")) {
+                    // JavaScript shorthand property (`{ model, config }`)
+                    this.position++;
+                    value[token.value] = this.variables[token.value];
+                } else {
+                    let key: any;
+                    if (token.value === "[") {
+                        this.position++;
+                        key = this.parseExpression();
+                        this.expect("]");
+                    } else if (token.type === "identifier" && this.peek(1)?.value === ":") {
+                        // JavaScript unquoted key
+                        this.position++;
+                        key = token.value;
+                    } else {
+                        key = this.parseExpression();
+                    }
+                    this.expect(":");
+                    value[finalizeValue(key)] = this.parseExpression();
+                }
+                if (this.peek()?.value === ",") this.position++;
+                else break;
+            }
+            this.expect("}");
+            return value;
+        }
+
+        /**
+         * Gets a token relative to the current position.
+         * @param {number} offset - The offset from the current position.
+         * @returns {Token | undefined} The token, if any.
+         */
+        private peek(offset: number = 0): Token | undefined {
+            return this.tokens[this.position + offset];
+        }
+
+        /**
+         * Checks whether the current token is one of the given identifiers.
+         * @param {string[]} names - The identifiers to check for.
+         * @returns {boolean} True if the current token matches.
+         */
+        private peekIdentifier(names: string[]): boolean {
+            const token = this.peek();
+            return token?.type === "identifier" && names.includes(token.value);
+        }
+
+        /**
+         * Consumes the current token, which must be the given punctuation.
+         * @param {string} value - The expected punctuation.
+         * @throws {SnippetSyntaxError} If the current token is something else.
+         */
+        private expect(value: string): void {
+            if (this.peek()?.value !== value) {
+                throw new SnippetSyntaxError(`Expected "${value}" but found "${this.peek()?.value}"`);
+            }
+            this.position++;
+        }
+    }
+
+    /**
+     * Evaluates a call to an SDK helper (e.g. `types.Part.from_text(text="...")`) or any other function.
+     * Unknown functions evaluate to their keyword arguments, or to their only positional argument.
+     * @param {string} name - The last segment of the called function's name.
+     * @param {any[]} args - The positional arguments.
+     * @param {{ [k: string]: any }} kwargs - The keyword arguments.
+     * @returns {any} The value of the call.
+     */
+    function evaluateCall(name: string, args: any[], kwargs: { [k: string]: any }): any {
+        switch (name) {
+            case "from_text":
+                return { text: kwargs["text"] ?? args[0] };
+            case "from_bytes":
+                return { inlineData: { mimeType: kwargs["mime_type"] ?? args[1], data: kwargs["data"] ?? args[0] } };
+            case "from_uri":
+                return { fileData: { fileUri: kwargs["file_uri"] ?? args[0], mimeType: kwargs["mime_type"] ?? args[1] } };
+            case "from_function_call":
+                return { functionCall: { name: kwargs["name"], args: kwargs["args"] } };
+            case "from_function_response":
+                return { functionResponse: { name: kwargs["name"], response: kwargs["response"] } };
+            case "GenerativeModel":
+            case "getGenerativeModel": {
+                const options = isPlainObject(args[0]) ? args[0] : { model: args[0] };
+                return { ...options, ...kwargs };
+            }
+        }
+
+        if (Object.keys(kwargs).length > 0) return kwargs;
+        if (args.length === 1) return args[0];
+        if (args.length === 0) return {};
+        return args;
+    }
+
+    /**
+     * Checks whether a value is a plain object (dict / object literal).
+     * @param {any} value - The value to check.
+     * @returns {boolean} True if the value is a plain object.
+     */
+    function isPlainObject(value: any): value is { [k: string]: any } {
+        return value != null && typeof value === "object" && !Array.isArray(value) && !(value instanceof UnresolvedReference);
+    }
+
+    /**
+     * Replaces unresolved references with the last segment of their name (e.g. `types.Type.OBJECT` becomes "OBJECT"),
+     * and converts snake_case keys to camelCase. Property names inside schema `properties` are kept as-is.
+     * @param {any} value - The value to finalize.
+     * @param {boolean} keepKeys - Whether the keys of this object are user-defined names.
+     * @returns {any} The finalized value.
+     */
+    function finalizeValue(value: any, keepKeys: boolean = false): any {
+        if (value instanceof UnresolvedReference) {
+            return value.name.split(".").pop();
+        }
+        if (Array.isArray(value)) {
+            const values: any[] = [];
+            for (const item of value) {
+                values.push(finalizeValue(item));
+            }
+            return values;
+        }
+        if (isPlainObject(value)) {
+            const finalized: { [k: string]: any } = {};
+            for (const [key, item] of Object.entries(value)) {
+                if (item === undefined) continue;
+                const finalKey = keepKeys ? key : key.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+                // Function call arguments and responses are user data too
+                const isUserData = finalKey === "properties" || finalKey === "args" || finalKey === "response";
+                finalized[finalKey] = finalizeValue(item, isUserData && isPlainObject(item));
+            }
+            return finalized;
+        }
+        return value;
+    }
+
+    /**
+     * Normalizes the SDKs' shorthand forms of `contents` (a string, a list of strings or parts,
+     * or a list of contents) to a list of contents.
+     * @param {any} value - The contents to normalize.
+     * @returns {any[]} The normalized contents.
+     */
+    function normalizeContents(value: any): any[] {
+        if (value == null) return [];
+        const items = Array.isArray(value) ? value : [value];
+
+        const contents: any[] = [];
+        for (const item of items) {
+            if (isPlainObject(item) && "parts" in item) {
+                contents.push({ role: item["role"] ?? "user", parts: normalizeParts(item["parts"]) });
+                continue;
+            }
+
+            // Loose strings and parts are grouped into the previous user content
+            const parts = normalizeParts(item);
+            const lastContent = contents[contents.length - 1];
+            if (lastContent && lastContent.role === "user" && lastContent.isLoose) {
+                lastContent.parts.push(...parts);
+            } else {
+                contents.push({ role: "user", parts, isLoose: true });
+            }
+        }
+
+        const normalized: any[] = [];
+        for (const content of contents) {
+            const parts: any[] = [];
+            for (const part of content.parts) {
+                if (part.text !== INPUT_PLACEHOLDER) parts.push(part);
+            }
+            if (parts.length > 0) normalized.push({ role: content.role, parts });
+        }
+        return normalized;
+    }
+
+    /**
+     * Normalizes a string, a part or a list of either to a list of parts.
+     * @param {any} value - The parts to normalize.
+     * @returns {any[]} The normalized parts.
+     */
+    function normalizeParts(value: any): any[] {
+        if (value == null) return [];
+        const items = Array.isArray(value) ? value : [value];
+
+        const parts: any[] = [];
+        for (const item of items) {
+            if (typeof item === "string") {
+                parts.push({ text: item });
+            } else if (isPlainObject(item)) {
+                parts.push(item);
+            }
+        }
+        return parts;
+    }
+
+    /**
+     * Moves the fields of an SDK config object into a generateContent request.
+     * The SDKs accept system instructions, safety settings and tools in the config, while the
+     * REST API has them at the top level.
+     * @param {any} request - The request to update.
+     * @param {any} config - The config object.
+     */
+    function applyConfig(request: any, config: any): void {
+        if (!isPlainObject(config)) return;
+
+        for (const [key, value] of Object.entries(config)) {
+            if (TOP_LEVEL_CONFIG_KEYS.includes(key)) {
+                request[key] = value;
+            } else {
+                request.generationConfig ??= {};
+                request.generationConfig[key] = value;
+            }
+        }
+
+        // A Pydantic model or other class reference cannot be converted
+        if (request.generationConfig && !isPlainObject(request.generationConfig.responseSchema)) {
+            delete request.generationConfig.responseSchema;
+        }
+    }
+
+    /**
+     * Builds a generateContent request from the SDK calls recorded in a Python or JavaScript snippet.
+     * @param {RecordedCall[]} calls - The recorded calls.
+     * @returns {any | null} The request, or null if the snippet has no SDK calls.
+     */
+    function buildRequestFromCalls(calls: RecordedCall[]): any | null {
+        if (calls.length === 0) return null;
+
+        const request: any = { contents: [] };
+        for (const call of calls) {
+            // The new JavaScript SDK passes a single options object
+            const options = finalizeValue(
+                isPlainObject(call.args[0]) && Object.keys(call.kwargs).length === 0 ? call.args[0] : call.kwargs
+            );
+
+            switch (call.name) {
+                case "GenerativeModel":
+                case "getGenerativeModel": {
+                    // The model name may also be passed positionally
+                    const { model, modelName, generationConfig, ...config } = finalizeValue(
+                        evaluateCall(call.name, call.args, call.kwargs)
+                    );
+                    if (modelName ?? model) request.model = modelName ?? model;
+                    applyConfig(request, config);
+                    applyConfig(request, generationConfig);
+                    break;
+                }
+                case "start_chat":
+                case "startChat":
+                    request.contents.push(...normalizeContents(options.history));
+                    applyConfig(request, options.generationConfig);
+                    break;
+                case "create":
+                    if (options.model) request.model = options.model;
+                    request.contents.push(...normalizeContents(options.history));
+                    applyConfig(request, options.config);
+                    break;
+                case "send_message":
+                case "send_message_stream":
+                case "sendMessage":
+                case "sendMessageStream": {
+                    const message = call.args.length > 0 && !isPlainObject(call.args[0]) ? call.args[0] : options.message ?? options.content;
+                    request.contents.push(...normalizeContents(finalizeValue(message)));
+                    break;
+                }
+                default: {
+                    // generate_content / generateContent and their streaming variants
+                    if (options.model) request.model = options.model;
+                    const contents = options.contents ?? finalizeValue(call.args.length > 1 || !isPlainObject(call.args[0]) ? call.args[0] : undefined);
+                    request.contents.push(...normalizeContents(contents));
+                    applyConfig(request, options.config);
+                    applyConfig(request, options.generationConfig);
+                    for (const key of TOP_LEVEL_CONFIG_KEYS) {
+                        if (options[key] != null) request[key] = options[key];
+                    }
+                }
+            }
+        }
+
+        if (typeof request.model === "string") {
+            request.model = request.model.replace(/^models\//, "");
+        } else {
+            delete request.model;
+        }
+        return request;
+    }
+
+    /**
+     * Extracts the request from a curl command, with the JSON body given inline (`-d '...'`) or in a heredoc.
+     * @param {string} text - The snippet.
+     * @returns {any | null} The request, or null if no JSON body was found.
+     */
+    function parseCurlSnippet(text: string): any | null {
+        // Shell variables, e.g. MODEL_ID="gemini-2.0-flash"
+        const variables: { [k: string]: string } = {};
+        const assignmentRegex = /^\s*(?:export\s+)?([A-Za-z_]\w*)=(?:"([^"]*)"|'([^']*)'|(\S*))\s*$/gm;
+        let assignment;
+        while ((assignment = assignmentRegex.exec(text)) !== null) {
+            variables[assignment[1]] = assignment[2] ?? assignment[3] ?? assignment[4] ?? "";
+        }
+        const substitute = (value: string) =>
+            value.replace(/\$\{(\w+)\}|\$(\w+)/g, (match, braced, plain) => variables[braced ?? plain] ?? match);
+
+        // The body is either inline or in a heredoc referenced with -d @file
+        let body: string | null = null;
+        const inlineMatch = text.match(/(?:-d|--data|--data-raw|--data-binary)\s+(?:'([^']*)'|"((?:[^"\\]|\\.)*)")/);
+        if (inlineMatch) {
+            body = inlineMatch[1] ?? inlineMatch[2].replace(/\\(.)/g, "$1");
+        }
+        if (body == null || body.startsWith("@")) {
+            const heredocMatch = text.match(/<<-?\s*(['"]?)(\w+)\1[^\n]*\n([\s\S]*?)\n\s*\2\s*(?:\n|$)/);
+            body = heredocMatch ? heredocMatch[3] : null;
+        }
+        if (body == null) return null;
+
+        // AI Studio's heredocs contain trailing commas, which JSON.parse rejects
+        let request: any;
+        try {
+            request = JSON.parse(substitute(body));
+        } catch (e) {
+            request = new SnippetEvaluator(tokenize(substitute(body))).evaluateLiteral();
+        }
+        if (request == null || typeof request !== "object" || Array.isArray(request)) return null;
+        const modelMatch = substitute(text).match(/models\/([^:/?"'\s]+)/);
+        if (modelMatch && request.model == null) {
+            request.model = modelMatch[1];
+        }
+        return request;
+    }
+
+    /**
+     * Extracts a Gemini API request (model, contents, system instruction, generation config, ...) from a
+     * Python, JavaScript or curl snippet, such as AI Studio's "Get code" output.
+     * @param {string} text - The snippet to parse.
+     * @returns {ParsedSnippet | null} The extracted request and the snippet's language, or null if no request was found.
+     */
+    function parseCodeSnippet(text: string): ParsedSnippet | null {
+        if (/(^|\n)\s*curl\b/.test(text)) {
+            try {
+                const request = parseCurlSnippet(text);
+                return request ? { language: "curl", request } : null;
+            } catch (e) {
+                console.debug("Failed to parse curl snippet:", e);
+                return null;
+            }
+        }
+
+        const evaluator = new SnippetEvaluator(tokenize(text));
+        evaluator.run();
+        const request = buildRequestFromCalls(evaluator.calls);
+        if (!request || (request.contents.length === 0 && !request.model)) return null;
+
+        const language = /\b(const|let|var|await|require)\b|=>|;\s*$/m.test(text) ? "javascript" : "python";
+        return { language, request };
+    }
+
+    // Make commands available globally
+    (window as any).aiStudioExt ??= {};
+    Object.assign((window as any).aiStudioExt, {
+        parseCodeSnippet,
+    });
+    console.debug("snippet-parser.ts loaded");
+})();
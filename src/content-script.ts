@@ -6,6 +6,27 @@
 let overlayContainer: HTMLElement | null = null;
 let dialogContainer: HTMLElement | null = null;
 let isImportDialogOpen = false;
+let batchImportEntries: BatchImportEntry[] = []; // Files loaded for a batch import; empty when importing a single prompt
+
+// Global variables for the export dialog elements
+let exportOverlayContainer: HTMLElement | null = null;
+let exportDialogContainer: HTMLElement | null = null;
+let isExportDialogOpen = false;
+let exportedPrompt: any[] | null = null; // The prompt fetched for the export dialog
+let exportRequest: AbortController | null = null; // Loads the prompt for the open export dialog, aborted on close
+
+// Global variables for the prompt library dialog elements
+let libraryOverlayContainer: HTMLElement | null = null;
+let libraryDialogContainer: HTMLElement | null = null;
+let isLibraryDialogOpen = false;
+let libraryPrompts: PromptLibraryItem[] = []; // The prompts of the library, kept between openings of the dialog
+let isLibraryLoaded = false; // Whether every page of the library was loaded
+let libraryAuthUser: string | null = null; // The account the library was loaded for
+let libraryRequest: AbortController | null = null; // Stops loading the library when the dialog is closed
+let libraryContent = new Map<string, PromptLibraryItem>(); // Prompts read with their turns, by name, kept across refreshes
+let libraryContentSignal: AbortSignal | null = null; // The request the prompts are being read for, if any
+const LIBRARY_RESULT_LIMIT = 200; // Rows shown at most, to keep the dialog responsive
+const LIBRARY_CONTENT_BATCH_SIZE = 5; // Prompts read at the same time for search
 
 // Status constants
 const STATUS = {
@@ -89,6 +110,8 @@ function initialize(): void {
     injectImportButton();
     injectStatusButton();
     createImportDialog(); // Create the dialog on initialization (but keep it hidden)
+    createExportDialog(); // Uses the import dialog styles, so must be created after it
+    createLibraryDialog(); // Also uses the import dialog styles
 
     // Check status initially and then at regular intervals
     checkAndUpdateStatus();
@@ -153,7 +176,7 @@ function injectButton(targetElement: Element): void {
     // Update the href attribute in the anchor tag
     const anchorElement = importButton.querySelector("a");
     if (anchorElement) {
-        anchorElement.setAttribute("href", "/prompts/import");
+        anchorElement.setAttribute("href", (window as any).aiStudioExt.getAccountPath("prompts/import"));
         anchorElement.setAttribute("aria-label", "Import Prompt");
 
         // Remove active class if present
@@ -188,6 +211,98 @@ function injectButton(targetElement: Element): void {
     targetElement.parentNode?.insertBefore(importButton, targetElement.nextSibling);
 
     console.debug("Import Prompt button injected successfully");
+
+    // The Export Prompt button goes right after the Import Prompt button
+    injectExportButton(importButton);
+}
+
+/**
+ * Creates and injects the Export Prompt button after the specified element
+ *
+ * @param {Element} targetElement - The element after which to inject the button
+ */
+function injectExportButton(targetElement: Element): void {
+    // Clone the target element to maintain styling and structure
+    const exportButton = targetElement.cloneNode(true) as Element;
+
+    // Update the href attribute in the anchor tag
+    const anchorElement = exportButton.querySelector("a");
+    if (anchorElement) {
+        anchorElement.setAttribute("href", (window as any).aiStudioExt.getAccountPath("prompts/export"));
+        anchorElement.setAttribute("aria-label", "Export Prompt");
+        anchorElement.classList.remove("active");
+    }
+
+    // Update the text content in the nav-item-text-wrapper div
+    const textWrapper = exportButton.querySelector(".nav-item-text-wrapper");
+    if (textWrapper) {
+        textWrapper.textContent = "Export Prompt";
+    }
+
+    const iconSpan = exportButton.querySelector(".material-symbols-outlined");
+    if (iconSpan) {
+        iconSpan.textContent = "file_download";
+    }
+
+    // Add click event listener for the export functionality
+    exportButton.addEventListener("click", (e) => {
+        // Prevent default navigation
+        e.preventDefault();
+        if (anchorElement) {
+            e.stopPropagation();
+            showExportDialog();
+        }
+    });
+
+    targetElement.parentNode?.insertBefore(exportButton, targetElement.nextSibling);
+
+    console.debug("Export Prompt button injected successfully");
+
+    // The Prompt Library button goes right after the Export Prompt button
+    injectLibraryButton(exportButton);
+}
+
+/**
+ * Creates and injects the Prompt Library button after the specified element
+ *
+ * @param {Element} targetElement - The element after which to inject the button
+ */
+function injectLibraryButton(targetElement: Element): void {
+    // Clone the target element to maintain styling and structure
+    const libraryButton = targetElement.cloneNode(true) as Element;
+
+    // Update the href attribute in the anchor tag
+    const anchorElement = libraryButton.querySelector("a");
+    if (anchorElement) {
+        anchorElement.setAttribute("href", (window as any).aiStudioExt.getAccountPath("prompts/library"));
+        anchorElement.setAttribute("aria-label", "Prompt Library");
+        anchorElement.classList.remove("active");
+    }
+
+    // Update the text content in the nav-item-text-wrapper div
+    const textWrapper = libraryButton.querySelector(".nav-item-text-wrapper");
+    if (textWrapper) {
+        textWrapper.textContent = "Prompt Library";
+    }
+
+    const iconSpan = libraryButton.querySelector(".material-symbols-outlined");
+    if (iconSpan) {
+        iconSpan.textContent = "manage_search";
+    }
+
+    // Add click event listener for the library functionality
+    libraryButton.addEventListener("click", (e) => {
+        // Prevent default navigation
+        e.preventDefault();
+        if (anchorElement) {
+            e.stopPropagation();
+            showLibraryDialog();
+        }
+    });
+
+    targetElement.parentNode?.insertBefore(libraryButton, targetElement.nextSibling);
+
+    console.debug("Prompt Library button injected successfully");
 }
 
 /**
@@ -942,168 +1057,525 @@ function createImportDialog(): void {
                 background-color: color-mix(in srgb, var(--color-neutral-10) 50%, var(--color-neutral-20)) !important;
             }
 
-            .import-actions {
-                margin-top: 24px;
+            .import-batch-list {
+                list-style: none;
+                margin: 8px 0 0 0;
+                padding: 0;
+                max-height: 40vh;
+                overflow-y: auto;
+                border: 1px solid var(--color-neutral-80);
+                border-radius: 4px;
+            }
+
+            .import-batch-item {
                 display: flex;
-                justify-content: flex-end;
-                gap: 12px;
-                flex-wrap: wrap;
-                align-items: center;
+                align-items: flex-start;
+                gap: 8px;
+                padding: 8px 12px;
+                border-bottom: 1px solid var(--color-neutral-90);
             }
 
-            .import-button {
-                background-color: var(--color-primary-50);
-                color: white;
-                border: none;
-                padding: 8px 16px;
-                border-radius: 4px;
-                cursor: pointer;
-                font-size: 14px;
+            .import-batch-item-checkbox {
+                margin: 3px 0 0 0;
             }
 
-            .import-button:disabled {
-                opacity: 0.7;
-                cursor: not-allowed;
+            .import-batch-item:last-child {
+                border-bottom: none;
             }
 
-            .import-button:not(:disabled):hover {
-                background-color: var(--color-primary-60);
+            .import-batch-item-name {
+                font-weight: 500;
+                word-break: break-all;
             }
 
-            .cancel-button {
-                background-color: transparent;
-                border: 1px solid var(--color-neutral-80);
-                padding: 8px 16px;
-                border-radius: 4px;
-                cursor: pointer;
-                font-size: 14px;
+            .import-batch-item-message {
+                font-size: 12px;
+                color: var(--color-neutral-60);
             }
 
-            .cancel-button:disabled {
-                opacity: 0.7;
-                cursor: not-allowed;
+            .import-batch-item-message a {
+                color: var(--color-primary-70);
             }
 
-            .cancel-button:not(:disabled):hover {
-                background-color: var(--color-neutral-10);
+            .import-batch-item-icon.invalid,
+            .import-batch-item-icon.failed {
+                color: var(--color-error-tooltip);
             }
 
-            .import-validation-error {
-                background-color: var(--color-error-tooltip-background);//rgba(217, 48, 37, 0.1);
-                border: 1px solid var(--color-error-tooltip);//#d93025;
-                border-radius: 4px;
-                color: var(--color-error-tooltip);//#d93025;
-                margin: 0;
-                padding: 8px 12px;
+            .import-batch-item-icon.warning {
+                color: hsl(from var(--color-error-tooltip) calc(h + 40) s l);
+            }
+
+            .import-batch-item-icon.valid,
+            .import-batch-item-icon.imported {
+                color: hsl(from var(--color-error-tooltip) calc(h + 120) s l);
+            }
+
+            .import-metadata {
+                display: grid;
+                grid-template-columns: max-content 1fr;
+                align-items: center;
+                gap: 6px 12px;
+                margin-top: 12px;
                 font-size: 14px;
+            }
+
+            .import-metadata input {
+                padding: 4px 8px;
+                border-radius: 4px;
+                background: var(--color-neutral-10);
+                color: var(--color-neutral-90);
+                border: 1px solid var(--color-neutral-80);
+                font-family: inherit;
+            }
+
+            .import-format {
                 display: flex;
                 align-items: center;
                 gap: 8px;
-                flex-grow: 1;
-                margin-right: 16px;
-                min-height: 36px;
-                order: -1; /* Ensures it appears before the buttons */
+                margin-top: 12px;
+                font-size: 14px;
             }
 
-            .import-validation-warning {
-                background-color: hsl(from var(--color-error-tooltip-background) calc(h + 40) s l);
-                border: 1px solid hsl(from var(--color-error-tooltip) calc(h + 40) s l);
+            .import-format-select {
+                padding: 4px 8px;
                 border-radius: 4px;
-                color: hsl(from var(--color-error-tooltip) calc(h + 40) s l);
-                margin: 0;
-                padding: 8px 12px;
+                background: var(--color-neutral-10);
+                color: var(--color-neutral-90);
+                border: 1px solid var(--color-neutral-80);
+            }
+
+            .import-format-detected {
+                color: var(--color-neutral-60);
+            }
+
+            .import-variables {
+                margin-top: 12px;
                 font-size: 14px;
+            }
+
+            .import-variables-header {
                 display: flex;
                 align-items: center;
+                justify-content: space-between;
                 gap: 8px;
-                flex-grow: 1;
-                margin-right: 16px;
-                min-height: 36px;
-                order: -1; /* Ensures it appears before the buttons */
+                font-weight: 500;
             }
 
-            .import-validation-info {
-                background-color: hsl(from var(--color-error-tooltip-background) calc(h + 225) s l);
-                border: 1px solid hsl(from var(--color-error-tooltip) calc(h + 225) s l);
+            .import-variables-csv-button {
+                background: none;
+                border: none;
+                color: var(--color-primary-70);
+                cursor: pointer;
+                font-size: 13px;
+            }
+
+            .import-variables-fields {
+                display: grid;
+                grid-template-columns: max-content 1fr;
+                align-items: center;
+                gap: 6px 12px;
+                margin-top: 8px;
+                max-height: 30vh;
+                overflow-y: auto;
+            }
+
+            .import-variables-fields label {
+                font-family: monospace;
+            }
+
+            .import-variables-fields input {
+                padding: 4px 8px;
+                border-radius: 4px;
+                background: var(--color-neutral-10);
+                color: var(--color-neutral-90);
+                border: 1px solid var(--color-neutral-80);
+            }
+
+            .import-model-aliases {
+                margin-top: 12px;
+                font-size: 13px;
+                border: 1px solid var(--color-neutral-80);
                 border-radius: 4px;
-                color: hsl(from var(--color-error-tooltip) calc(h + 225) s l);
-                margin: 0;
                 padding: 8px 12px;
-                font-size: 14px;
+            }
+
+            .import-model-aliases summary {
+                cursor: pointer;
+                font-weight: 500;
+            }
+
+            .import-model-aliases p {
+                margin: 8px 0;
+                color: var(--color-neutral-60);
+            }
+
+            .import-model-aliases-textarea {
+                box-sizing: border-box;
+                width: 100%;
+                padding: 4px 8px;
+                border-radius: 4px;
+                background: var(--color-neutral-10);
+                color: var(--color-neutral-90);
+                border: 1px solid var(--color-neutral-80);
+                font-family: monospace;
+                resize: vertical;
+            }
+
+            .import-model-aliases-actions {
                 display: flex;
                 align-items: center;
                 gap: 8px;
-                flex-grow: 1;
-                margin-right: 16px;
-                min-height: 36px;
-                order: -1; /* Ensures it appears before the buttons */
+                margin: 8px 0;
             }
 
-            .import-validation-success {
-                background-color: hsl(from var(--color-error-tooltip-background) calc(h + 120) s l);
-                border: 1px solid hsl(from var(--color-error-tooltip) calc(h + 120) s l);
+            .import-preview {
+                margin-top: 12px;
+                font-size: 13px;
+                border: 1px solid var(--color-neutral-80);
                 border-radius: 4px;
-                color: hsl(from var(--color-error-tooltip) calc(h + 120) s l);
-                margin: 0;
                 padding: 8px 12px;
-                font-size: 14px;
+            }
+
+            .import-preview summary {
+                cursor: pointer;
+                font-weight: 500;
+            }
+
+            .import-preview-body {
+                max-height: 40vh;
+                overflow-y: auto;
+                margin-top: 8px;
+            }
+
+            .import-preview-settings {
                 display: flex;
-                align-items: center;
-                gap: 8px;
-                flex-grow: 1;
-                margin-right: 16px;
-                min-height: 36px;
-                order: -1; /* Ensures it appears before the buttons */
+                flex-wrap: wrap;
+                gap: 4px 16px;
+                color: var(--color-neutral-60);
+                margin-bottom: 8px;
             }
 
-            .import-validation-error::before {
-                content: "error";
-                font-family: 'Material Symbols Outlined';
-                font-size: 18px;
-                color: var(--color-error-tooltip);
+            .import-preview-turn {
+                border-left: 3px solid var(--color-neutral-80);
+                padding: 4px 8px;
+                margin: 6px 0;
             }
 
-            .import-validation-warning::before {
-                content: "warning";
-                font-family: 'Material Symbols Outlined';
-                font-size: 18px;
-                color: hsl(from var(--color-error-tooltip) calc(h + 40) s l);
+            .import-preview-turn.model {
+                border-left-color: var(--color-primary-70);
             }
 
-            .import-validation-info::before {
-                content: "info";
-                font-family: 'Material Symbols Outlined';
-                font-size: 18px;
-                color: hsl(from var(--color-error-tooltip) calc(h + 225) s l);
+            .import-preview-turn.system {
+                border-left-color: hsl(from var(--color-error-tooltip) calc(h + 40) s l);
             }
 
-            .import-validation-success::before {
-                content: "check_circle";
-                font-family: 'Material Symbols Outlined';
-                font-size: 18px;
-                color: hsl(from var(--color-error-tooltip) calc(h + 120) s l);
+            .import-preview-role {
+                font-size: 11px;
+                font-weight: 500;
+                text-transform: uppercase;
+                color: var(--color-neutral-60);
             }
-        `;
-        document.head.appendChild(style);
-    }
 
-    // Create the overlay container
-    overlayContainer = document.createElement("div");
-    overlayContainer.className = "ai-studio-import-dialog-overlay";
-    document.body.appendChild(overlayContainer);
+            .import-preview-text {
+                white-space: pre-wrap;
+                word-break: break-word;
+            }
 
-    // Create the dialog container
-    dialogContainer = document.createElement("div");
-    dialogContainer.className = "ai-studio-import-dialog";
-    overlayContainer.appendChild(dialogContainer);
+            .import-preview pre {
+                margin: 4px 0;
+                white-space: pre-wrap;
+                word-break: break-all;
+                font-size: 12px;
+            }
 
-    // Create dialog content
-    const dialogContent = `
-        <h2 class="import-dialog-title">
-            Import Prompt
-            <button class="close-button">
-                <span aria-hidden="true" class="material-symbols-outlined notranslate">close</span>
-            </button>
+            .library-filters {
+                display: flex;
+                flex-wrap: wrap;
+                align-items: center;
+                gap: 8px 12px;
+                margin-bottom: 12px;
+                font-size: 14px;
+            }
+
+            .library-filters input,
+            .library-filters select {
+                padding: 4px 8px;
+                border-radius: 4px;
+                background: var(--color-neutral-10);
+                color: var(--color-neutral-90);
+                border: 1px solid var(--color-neutral-80);
+            }
+
+            .library-search {
+                flex: 1;
+                min-width: 240px;
+            }
+
+            .library-summary {
+                margin-bottom: 8px;
+                font-size: 13px;
+                color: var(--color-neutral-60);
+            }
+
+            .library-results {
+                min-width: min(800px, 80vw);
+                max-width: 80vw;
+                height: 50vh;
+                overflow-y: auto;
+            }
+
+            .library-table {
+                width: 100%;
+                border-collapse: collapse;
+                font-size: 14px;
+            }
+
+            .library-table th {
+                position: sticky;
+                top: 0;
+                padding: 6px 8px;
+                text-align: left;
+                font-weight: 500;
+                color: var(--color-neutral-60);
+                background-color: var(--mat-app-background-color);
+                border-bottom: 1px solid var(--color-neutral-80);
+            }
+
+            .library-table td {
+                padding: 6px 8px;
+                vertical-align: top;
+                border-bottom: 1px solid var(--color-neutral-90);
+            }
+
+            .library-table tbody tr {
+                cursor: pointer;
+            }
+
+            .library-table tbody tr:hover {
+                background-color: color-mix(in srgb, var(--color-neutral-10) 50%, var(--color-neutral-20));
+            }
+
+            .library-table .library-number {
+                text-align: right;
+            }
+
+            .import-diagnostics {
+                margin-top: 12px;
+                font-size: 13px;
+                border: 1px solid var(--color-neutral-80);
+                border-radius: 4px;
+                padding: 8px 12px;
+            }
+
+            .import-diagnostics summary {
+                cursor: pointer;
+                font-weight: 500;
+            }
+
+            .import-diagnostics ul {
+                list-style: none;
+                margin: 8px 0 0 0;
+                padding: 0;
+                max-height: 30vh;
+                overflow-y: auto;
+            }
+
+            .import-diagnostics li {
+                display: flex;
+                align-items: flex-start;
+                gap: 8px;
+                padding: 4px 0;
+            }
+
+            .import-diagnostics li.located {
+                cursor: pointer;
+            }
+
+            .import-diagnostics li .material-symbols-outlined {
+                font-size: 18px;
+            }
+
+            .import-diagnostics .error {
+                color: var(--color-error-tooltip);
+            }
+
+            .import-diagnostics .warning {
+                color: hsl(from var(--color-error-tooltip) calc(h + 40) s l);
+            }
+
+            .import-diagnostics .dropped,
+            .import-diagnostics .defaulted {
+                color: var(--color-neutral-60);
+            }
+
+            .import-diagnostics-path {
+                font-family: monospace;
+                word-break: break-all;
+            }
+
+            .import-actions {
+                margin-top: 24px;
+                display: flex;
+                justify-content: flex-end;
+                gap: 12px;
+                flex-wrap: wrap;
+                align-items: center;
+            }
+
+            .import-button {
+                background-color: var(--color-primary-50);
+                color: white;
+                border: none;
+                padding: 8px 16px;
+                border-radius: 4px;
+                cursor: pointer;
+                font-size: 14px;
+            }
+
+            .import-button:disabled {
+                opacity: 0.7;
+                cursor: not-allowed;
+            }
+
+            .import-button:not(:disabled):hover {
+                background-color: var(--color-primary-60);
+            }
+
+            .cancel-button {
+                background-color: transparent;
+                border: 1px solid var(--color-neutral-80);
+                padding: 8px 16px;
+                border-radius: 4px;
+                cursor: pointer;
+                font-size: 14px;
+            }
+
+            .cancel-button:disabled {
+                opacity: 0.7;
+                cursor: not-allowed;
+            }
+
+            .cancel-button:not(:disabled):hover {
+                background-color: var(--color-neutral-10);
+            }
+
+            .import-validation-error {
+                background-color: var(--color-error-tooltip-background);//rgba(217, 48, 37, 0.1);
+                border: 1px solid var(--color-error-tooltip);//#d93025;
+                border-radius: 4px;
+                color: var(--color-error-tooltip);//#d93025;
+                margin: 0;
+                padding: 8px 12px;
+                font-size: 14px;
+                display: flex;
+                align-items: center;
+                gap: 8px;
+                flex-grow: 1;
+                margin-right: 16px;
+                min-height: 36px;
+                order: -1; /* Ensures it appears before the buttons */
+            }
+
+            .import-validation-warning {
+                background-color: hsl(from var(--color-error-tooltip-background) calc(h + 40) s l);
+                border: 1px solid hsl(from var(--color-error-tooltip) calc(h + 40) s l);
+                border-radius: 4px;
+                color: hsl(from var(--color-error-tooltip) calc(h + 40) s l);
+                margin: 0;
+                padding: 8px 12px;
+                font-size: 14px;
+                display: flex;
+                align-items: center;
+                gap: 8px;
+                flex-grow: 1;
+                margin-right: 16px;
+                min-height: 36px;
+                order: -1; /* Ensures it appears before the buttons */
+            }
+
+            .import-validation-info {
+                background-color: hsl(from var(--color-error-tooltip-background) calc(h + 225) s l);
+                border: 1px solid hsl(from var(--color-error-tooltip) calc(h + 225) s l);
+                border-radius: 4px;
+                color: hsl(from var(--color-error-tooltip) calc(h + 225) s l);
+                margin: 0;
+                padding: 8px 12px;
+                font-size: 14px;
+                display: flex;
+                align-items: center;
+                gap: 8px;
+                flex-grow: 1;
+                margin-right: 16px;
+                min-height: 36px;
+                order: -1; /* Ensures it appears before the buttons */
+            }
+
+            .import-validation-success {
+                background-color: hsl(from var(--color-error-tooltip-background) calc(h + 120) s l);
+                border: 1px solid hsl(from var(--color-error-tooltip) calc(h + 120) s l);
+                border-radius: 4px;
+                color: hsl(from var(--color-error-tooltip) calc(h + 120) s l);
+                margin: 0;
+                padding: 8px 12px;
+                font-size: 14px;
+                display: flex;
+                align-items: center;
+                gap: 8px;
+                flex-grow: 1;
+                margin-right: 16px;
+                min-height: 36px;
+                order: -1; /* Ensures it appears before the buttons */
+            }
+
+            .import-validation-error::before {
+                content: "error";
+                font-family: 'Material Symbols Outlined';
+                font-size: 18px;
+                color: var(--color-error-tooltip);
+            }
+
+            .import-validation-warning::before {
+                content: "warning";
+                font-family: 'Material Symbols Outlined';
+                font-size: 18px;
+                color: hsl(from var(--color-error-tooltip) calc(h + 40) s l);
+            }
+
+            .import-validation-info::before {
+                content: "info";
+                font-family: 'Material Symbols Outlined';
+                font-size: 18px;
+                color: hsl(from var(--color-error-tooltip) calc(h + 225) s l);
+            }
+
+            .import-validation-success::before {
+                content: "check_circle";
+                font-family: 'Material Symbols Outlined';
+                font-size: 18px;
+                color: hsl(from var(--color-error-tooltip) calc(h + 120) s l);
+            }
+        `;
+        document.head.appendChild(style);
+    }
+
+    // Create the overlay container
+    overlayContainer = document.createElement("div");
+    overlayContainer.className = "ai-studio-import-dialog-overlay";
+    document.body.appendChild(overlayContainer);
+
+    // Create the dialog container
+    dialogContainer = document.createElement("div");
+    dialogContainer.className = "ai-studio-import-dialog";
+    overlayContainer.appendChild(dialogContainer);
+
+    // Create dialog content
+    const dialogContent = `
+        <h2 class="import-dialog-title">
+            Import Prompt
+            <button class="close-button">
+                <span aria-hidden="true" class="material-symbols-outlined notranslate">close</span>
+            </button>
         </h2>
         <div class="import-dialog-content">
             <div class="import-dialog-intro">
@@ -1111,6 +1583,9 @@ function createImportDialog(): void {
                 <ul>
                     <li><a href="https://ai.google.dev/api/generate-content#method:-models.generatecontent">Gemini API (models.generateContent format)</a></li>
                     <li><a href="https://aistudio.google.com/library">AI Studio Prompt Library</a></li>
+                    <li><a href="https://platform.openai.com/docs/api-reference/chat/create">OpenAI Chat Completions (chat.completions.create format)</a></li>
+                    <li><a href="https://docs.anthropic.com/en/api/messages">Anthropic Messages API (messages.create format)</a></li>
+                    <li>"Get code" snippets from AI Studio (Python, JavaScript or curl)</li>
                 </ul>
             </div>
             <div class="import-dialog-tabs">
@@ -1118,18 +1593,62 @@ function createImportDialog(): void {
                 <div class="import-tab" data-tab="file">File Upload</div>
             </div>
             <div class="import-tab-content" id="json-tab">
-                <textarea class="import-json-textarea" placeholder="Paste your prompt JSON here"></textarea>
+                <textarea class="import-json-textarea" placeholder="Paste your prompt JSON or code snippet here"></textarea>
             </div>
             <div class="import-tab-content" id="file-tab" style="display: none;">
                 <div class="import-file-drop">
-                    <input type="file" id="import-file-input" accept=".json" style="display: none;" />
+                    <input type="file" id="import-file-input" accept=".json,.jsonl,.zip" multiple style="display: none;" />
                     <div class="import-file-drop-area">
                         <span class="material-symbols-outlined notranslate">upload_file</span>
                         <p>Drop your file here or click to browse</p>
+                        <p>Drop several .json files, a .zip, or a Batch API .jsonl file to import each file (or line) as its own prompt</p>
                     </div>
                 </div>
                 <div class="import-file-info" style="display: none;"></div>
+                <ul class="import-batch-list" style="display: none;"></ul>
+            </div>
+            <div class="import-metadata">
+                <label for="import-title-input">Title</label>
+                <input id="import-title-input" class="import-title-input" />
+                <label for="import-tags-input">Tags</label>
+                <input id="import-tags-input" class="import-tags-input" placeholder="Comma-separated" />
+            </div>
+            <div class="import-format">
+                <label for="import-format-select">Format</label>
+                <select id="import-format-select" class="import-format-select">
+                    <option value="">Auto-detect</option>
+                </select>
+                <span class="import-format-detected"></span>
             </div>
+            <details class="import-model-aliases">
+                <summary>Model aliases</summary>
+                <p>
+                    Imported prompts that use a model on the left get the Gemini model on the right instead. One alias per
+                    line, as <code>model = gemini-model</code>. The aliases are saved in the browser and used in every tab.
+                </p>
+                <textarea class="import-model-aliases-textarea" rows="6" spellcheck="false"></textarea>
+                <div class="import-model-aliases-actions">
+                    <button class="import-model-aliases-save">Save aliases</button>
+                    <button class="import-model-aliases-reset">Reset to defaults</button>
+                </div>
+                <div class="import-model-aliases-status" style="display: none;"></div>
+            </details>
+            <div class="import-variables" style="display: none;">
+                <div class="import-variables-header">
+                    <span>Template variables</span>
+                    <button class="import-variables-csv-button">Create one prompt per CSV row</button>
+                    <input type="file" class="import-variables-csv-input" accept=".csv,text/csv" style="display: none;" />
+                </div>
+                <div class="import-variables-fields"></div>
+            </div>
+            <details class="import-diagnostics" style="display: none;">
+                <summary></summary>
+                <ul></ul>
+            </details>
+            <details class="import-preview" style="display: none;">
+                <summary>Preview</summary>
+                <div class="import-preview-body"></div>
+            </details>
             <div class="import-actions">
                 <div id="import-validation-error" class="import-validation-error" style="display: none;"></div>
                 <button class="import-button">Import</button>
@@ -1143,6 +1662,27 @@ function createImportDialog(): void {
     setupDialogEventHandlers();
 }
 
+// Display names of the code snippet languages recognized by parseCodeSnippet
+const SNIPPET_LANGUAGE_NAMES: { [language: string]: string } = {
+    python: "Python",
+    javascript: "JavaScript",
+    curl: "curl",
+};
+
+/**
+ * Parses the text to import, either as JSON or as a code snippet (Python, JavaScript or curl)
+ * @param text - The text to parse
+ * @returns The prompt data and, for code snippets, the snippet's language; or null if the text could not be parsed
+ */
+function parseImportText(text: string): { data: any; language?: string } | null {
+    try {
+        return { data: JSON.parse(text) };
+    } catch (e) {
+        const snippet = (window as any).aiStudioExt.parseCodeSnippet?.(text);
+        return snippet ? { data: snippet.request, language: snippet.language } : null;
+    }
+}
+
 /**
  * Sets up all event handlers for the import dialog
  */
@@ -1163,6 +1703,10 @@ function setupDialogEventHandlers(): void {
 
         // Check if textarea is empty
         if (!value) {
+            updateDetectedFormat(null);
+            renderTemplateVariables(null);
+            renderImportDiagnostics(null);
+            renderImportPreview(null);
             if (errorDiv) {
                 errorDiv.textContent = "Please enter JSON data to import.";
                 errorDiv.style.display = "flex";
@@ -1176,13 +1720,19 @@ function setupDialogEventHandlers(): void {
             return false;
         }
 
-        // Check if textarea contains parsable JSON
-        let parsedJson;
-        try {
-            parsedJson = JSON.parse(value);
-        } catch (e) {
+        // Check if textarea contains parsable JSON or a code snippet
+        const parsed = parseImportText(value);
+        updateDetectedFormat(parsed);
+        renderTemplateVariables(parsed);
+        if (!parsed) {
+            renderImportPreview(null);
+            renderImportDiagnostics({
+                errors: [describeJsonSyntaxError(jsonTextarea.value)],
+                warnings: [],
+                fieldChanges: [],
+            });
             if (errorDiv) {
-                errorDiv.textContent = "Invalid JSON format. Please check your input.";
+                errorDiv.textContent = "Invalid JSON format, and no Gemini API call was found in it as code. Please check your input.";
                 errorDiv.style.display = "flex";
                 errorDiv.classList.remove(
                     "import-validation-info",
@@ -1194,40 +1744,54 @@ function setupDialogEventHandlers(): void {
             return false;
         }
 
-        // Check if content can be converted via convertPromptData
-        try {
-            const convertedData = (window as any).aiStudioExt.convertPromptData(promptName, parsedJson);
-            if (!convertedData) {
-                if (errorDiv) {
-                    errorDiv.textContent = "This JSON format is not recognized as a valid prompt.";
-                    errorDiv.style.display = "flex";
-                    errorDiv.classList.remove(
-                        "import-validation-info",
-                        "import-validation-success",
-                        "import-validation-warning"
-                    );
-                    errorDiv.classList.add("import-validation-error");
-                }
-                return false;
+        const filledData = (window as any).aiStudioExt.fillTemplateVariables(parsed.data, getTemplateValues());
+        updateImportMetadata(
+            (window as any).aiStudioExt.readPromptMetadata(filledData, getSelectedImportFormat()),
+            promptName
+        );
+
+        // Check if content can be converted, and list everything that will be lost or defaulted
+        const diagnostics: ImportDiagnosticsReport = (window as any).aiStudioExt.diagnosePromptData(
+            promptName,
+            filledData,
+            {
+                format: getSelectedImportFormat(),
+                // Line and column numbers only make sense for JSON, not for the request read from a code snippet
+                text: parsed.language ? undefined : jsonTextarea.value,
+                metadata: getImportMetadata(),
             }
-        } catch (e) {
-            console.debug("Error converting prompt data:", e);
+        );
+        for (const name of getUnfilledTemplateVariables(parsed.data)) {
+            diagnostics.warnings.push({ path: "", message: `No value for {{${name}}}; the placeholder is kept as is.` });
+        }
+        renderImportDiagnostics(diagnostics);
+        renderImportPreview(diagnostics.errors.length > 0 ? null : diagnostics.prompt);
+        if (diagnostics.errors.length > 0) {
+            setImportStatus(
+                diagnostics.errors.length === 1
+                    ? formatImportDiagnostic(diagnostics.errors[0])
+                    : `${diagnostics.errors.length} errors found. See the details below.`,
+                "import-validation-error"
+            );
+            return false;
+        }
+
+        const formatName = parsed.language ? `${SNIPPET_LANGUAGE_NAMES[parsed.language] ?? parsed.language} snippet` : "prompt format";
+
+        // If validation passed with warnings, point to the details
+        if (diagnostics.warnings.length > 0) {
             if (errorDiv) {
-                errorDiv.textContent = "Error processing JSON data. The format may not be supported.";
+                errorDiv.textContent = `Valid ${formatName}, with ${diagnostics.warnings.length} warning(s). See the details below.`;
                 errorDiv.style.display = "flex";
-                errorDiv.classList.remove(
-                    "import-validation-info",
-                    "import-validation-success",
-                    "import-validation-warning"
-                );
-                errorDiv.classList.add("import-validation-error");
+                errorDiv.classList.remove("import-validation-info", "import-validation-error", "import-validation-success");
+                errorDiv.classList.add("import-validation-warning");
             }
-            return false;
+            return true;
         }
 
         // If validation passed, show success message
         if (errorDiv) {
-            errorDiv.textContent = "Valid prompt format. Ready to import!";
+            errorDiv.textContent = `Valid ${formatName}. Ready to import!`;
             errorDiv.style.display = "flex";
             errorDiv.classList.remove("import-validation-info", "import-validation-error", "import-validation-warning");
             errorDiv.classList.add("import-validation-success");
@@ -1288,6 +1852,16 @@ function setupDialogEventHandlers(): void {
             if (tabContent) {
                 (tabContent as HTMLElement).style.display = "block";
             }
+
+            // The import button imports the batch on the file tab, and the text box otherwise
+            const importButton = dialogContainer!.querySelector(".import-button") as HTMLButtonElement;
+            if (importButton && !isLoading) {
+                if (isBatchImportActive()) {
+                    updateBatchImportStatus();
+                } else {
+                    importButton.disabled = !validateTextarea();
+                }
+            }
         });
     }
 
@@ -1316,19 +1890,47 @@ function setupDialogEventHandlers(): void {
 
             const dragEvent = e as DragEvent;
             if (dragEvent.dataTransfer && dragEvent.dataTransfer.files && dragEvent.dataTransfer.files.length > 0) {
-                handleFile(dragEvent.dataTransfer.files[0]);
+                handleFiles(Array.from(dragEvent.dataTransfer.files));
             }
         });
 
         fileInput.addEventListener("change", () => {
             if (fileInput.files && fileInput.files.length) {
-                handleFile(fileInput.files[0]);
+                handleFiles(Array.from(fileInput.files));
             }
         });
 
+        async function handleFiles(files: File[]) {
+            // A single JSON file is loaded into the text box, so it can be reviewed before importing
+            if (files.length === 1 && !isZipFile(files[0]) && !isJsonlFile(files[0])) {
+                handleFile(files[0]);
+                return;
+            }
+
+            (fileInfo as HTMLElement).innerHTML = `
+                <div class="file-info-content">
+                    <span class="material-symbols-outlined notranslate">folder_zip</span>
+                    <span>${files.length} file(s) selected. Click to choose other files.</span>
+                </div>
+            `;
+            (fileInfo as HTMLElement).style.display = "block";
+            (fileDropArea as HTMLElement).style.display = "none";
+            setImportStatus("Reading files...", "import-validation-info");
+            renderImportDiagnostics(null);
+            renderImportPreview(null);
+
+            batchImportEntries = [];
+            const importFiles = await readImportFiles(files);
+            for (const importFile of importFiles) {
+                batchImportEntries.push(validateBatchImportFile(importFile));
+            }
+            renderBatchImportList();
+            updateBatchImportStatus();
+        }
+
         function handleFile(file: File) {
             if (file.type === "application/json" || file.name.endsWith(".json")) {
-                promptName = file.name;
+                promptName = file.name.replace(/\.json$/i, "");
                 (fileInfo as HTMLElement).innerHTML = `
                     <div class="file-info-content">
                         <span class="material-symbols-outlined notranslate">description</span>
@@ -1361,8 +1963,11 @@ function setupDialogEventHandlers(): void {
 
         // Add click handler to the file info area to allow resetting the file selection
         fileInfo.addEventListener("click", () => {
-            // Reset the file input value
+            if (isLoading) return;
+            // Reset the file input value and the batch import
             fileInput.value = "";
+            batchImportEntries = [];
+            renderBatchImportList();
             // Hide file info and show drop area again
             fileInfo.style.display = "none";
             fileDropArea.style.display = "flex";
@@ -1377,6 +1982,139 @@ function setupDialogEventHandlers(): void {
         }
     }
 
+    // Changing the format validates the input again
+    const formatSelect = dialogContainer.querySelector(".import-format-select") as HTMLSelectElement;
+    if (formatSelect) {
+        formatSelect.addEventListener("change", () => {
+            const importButton = dialogContainer!.querySelector(".import-button") as HTMLButtonElement;
+            if (isLoading) return;
+
+            for (let i = 0; i < batchImportEntries.length; i++) {
+                if (batchImportEntries[i].status !== "imported") {
+                    const selected = batchImportEntries[i].selected;
+                    batchImportEntries[i] = validateBatchImportFile(batchImportEntries[i].source);
+                    batchImportEntries[i].selected = selected;
+                }
+            }
+            renderBatchImportList();
+
+            if (isBatchImportActive()) {
+                updateBatchImportStatus();
+            } else if (importButton) {
+                importButton.disabled = !validateTextarea();
+            }
+        });
+    }
+
+    // Fields the user edits are no longer prefilled from the text to import
+    const metadataInputs = dialogContainer.querySelectorAll(".import-metadata input");
+    for (let i = 0; i < metadataInputs.length; i++) {
+        const input = metadataInputs[i] as HTMLInputElement;
+        input.addEventListener("input", () => {
+            input.dataset["edited"] = "true";
+            // The title and tags are part of the validated prompt
+            const importButton = dialogContainer!.querySelector(".import-button") as HTMLButtonElement;
+            if (importButton && !isLoading) importButton.disabled = !validateTextarea();
+        });
+    }
+
+    // Editing a template variable validates the text box again
+    const variablesFields = dialogContainer.querySelector(".import-variables-fields") as HTMLElement;
+    if (variablesFields) {
+        variablesFields.addEventListener("input", () => {
+            const importButton = dialogContainer!.querySelector(".import-button") as HTMLButtonElement;
+            if (importButton && !isLoading) importButton.disabled = !validateTextarea();
+        });
+    }
+
+    // The model aliases are saved for every import, and the input is checked again with them
+    const aliasesTextarea = dialogContainer.querySelector(".import-model-aliases-textarea") as HTMLTextAreaElement;
+    const saveAliasesButton = dialogContainer.querySelector(".import-model-aliases-save") as HTMLButtonElement;
+    const resetAliasesButton = dialogContainer.querySelector(".import-model-aliases-reset") as HTMLButtonElement;
+    if (aliasesTextarea && saveAliasesButton && resetAliasesButton) {
+        saveAliasesButton.addEventListener("click", async () => {
+            const { aliases, errors } = parseModelAliases(aliasesTextarea.value);
+            if (errors.length > 0) {
+                setModelAliasStatus(errors.join(" "), "import-validation-error");
+                return;
+            }
+            try {
+                await (window as any).aiStudioExt.setModelAliases(aliases);
+                renderModelAliases();
+                setModelAliasStatus("Model aliases saved.", "import-validation-success");
+                revalidateImportInput();
+            } catch (error) {
+                console.error("Failed to save the model aliases:", error);
+                setModelAliasStatus("Failed to save the model aliases.", "import-validation-error");
+            }
+        });
+
+        resetAliasesButton.addEventListener("click", async () => {
+            try {
+                await (window as any).aiStudioExt.resetModelAliases();
+                renderModelAliases();
+                setModelAliasStatus("Default model aliases restored.", "import-validation-success");
+                revalidateImportInput();
+            } catch (error) {
+                console.error("Failed to reset the model aliases:", error);
+                setModelAliasStatus("Failed to reset the model aliases.", "import-validation-error");
+            }
+        });
+    }
+
+    // A CSV of variable values creates one prompt per row, imported like a batch of files
+    const csvButton = dialogContainer.querySelector(".import-variables-csv-button") as HTMLButtonElement;
+    const csvInput = dialogContainer.querySelector(".import-variables-csv-input") as HTMLInputElement;
+    if (csvButton && csvInput) {
+        csvButton.addEventListener("click", () => {
+            if (!isLoading) csvInput.click();
+        });
+
+        csvInput.addEventListener("change", async () => {
+            const file = csvInput.files?.[0];
+            csvInput.value = "";
+            const jsonTextarea = dialogContainer!.querySelector(".import-json-textarea") as HTMLTextAreaElement;
+            const parsed = jsonTextarea ? parseImportText(jsonTextarea.value.trim()) : null;
+            if (!file || !parsed) return;
+
+            const rows: { [name: string]: string }[] = (window as any).aiStudioExt.parseTemplateRows(await file.text());
+            if (rows.length === 0) {
+                alert("The CSV file has no rows. The first row must name the variables, and each other row creates a prompt.");
+                return;
+            }
+
+            const values = getTemplateValues();
+            const metadata = getImportMetadata();
+            batchImportEntries = [];
+            for (let i = 0; i < rows.length; i++) {
+                const data = (window as any).aiStudioExt.fillTemplateVariables(parsed.data, { ...values, ...rows[i] });
+                const name = `${metadata.title ?? promptName} (row ${i + 1})`;
+                batchImportEntries.push(
+                    validateBatchImportFile({
+                        name,
+                        text: JSON.stringify(data),
+                        metadata: { ...metadata, title: name },
+                    })
+                );
+            }
+
+            if (fileInfo && fileDropArea) {
+                fileInfo.innerHTML = `
+                    <div class="file-info-content">
+                        <span class="material-symbols-outlined notranslate">table</span>
+                        <span></span>
+                    </div>
+                `;
+                (fileInfo.querySelector("span:last-child") as HTMLElement).textContent =
+                    `${rows.length} prompt(s) from ${file.name}. Click to choose other files.`;
+                fileInfo.style.display = "block";
+                fileDropArea.style.display = "none";
+            }
+            renderBatchImportList();
+            tabs[1].click();
+        });
+    }
+
     // Import button functionality
     const importButton = dialogContainer.querySelector(".import-button") as HTMLButtonElement;
     const jsonTextarea = dialogContainer.querySelector(".import-json-textarea") as HTMLTextAreaElement;
@@ -1397,6 +2135,10 @@ function setupDialogEventHandlers(): void {
         });
 
         importButton.addEventListener("click", () => {
+            if (isBatchImportActive()) {
+                if (!isLoading) importBatch();
+                return;
+            }
             if (jsonTextarea && jsonTextarea.value.trim()) {
                 try {
                     if (isLoading) return;
@@ -1418,33 +2160,41 @@ function setupDialogEventHandlers(): void {
                         isLoading = false;
                     };
 
-                    const promptData = JSON.parse(jsonTextarea.value);
+                    const parsed = parseImportText(jsonTextarea.value.trim());
+                    if (!parsed) throw new Error("Invalid JSON format");
+                    const promptData = (window as any).aiStudioExt.fillTemplateVariables(
+                        parsed.data,
+                        getTemplateValues()
+                    );
                     console.debug("Importing prompt:", promptData);
 
                     // Use the global version of createMakerSuitePrompt
                     try {
                         (window as any).aiStudioExt
-                            .createMakerSuitePrompt(promptName, promptData)
-                            .then((responseText: string) => {
-                                console.debug("Prompt created successfully:", responseText);
-                                try {
-                                    const json = JSON.parse(responseText);
-                                    // Update the URL without reloading the page
-                                    history.pushState({}, "", json[0]);
-                                    // Dispatch a popstate event to trigger angular router to execute component
-                                    window.dispatchEvent(new PopStateEvent("popstate"));
-                                } catch (e) {
-                                    console.error("Failed to parse prompt:", e);
-                                    alert("Failed to create prompt. Error: " + e);
-                                }
+                            .createMakerSuitePrompt(promptName, promptData, {
+                                format: getSelectedImportFormat(),
+                                metadata: getImportMetadata(),
+                            })
+                            .then((prompt: any[]) => {
+                                console.debug("Prompt created successfully:", prompt);
+                                // Update the URL without reloading the page, keeping the account of the page
+                                history.pushState({}, "", (window as any).aiStudioExt.getAccountPath(prompt[0]));
+                                // Dispatch a popstate event to trigger angular router to execute component
+                                window.dispatchEvent(new PopStateEvent("popstate"));
 
                                 // Close dialog after successful import
                                 enableControls(); // Re-enable on error
                                 closeDialog();
                             })
-                            .catch((status: number | string, statusText: string | null) => {
-                                console.error("Failed to create prompt:", status, statusText);
-                                alert("Failed to create prompt.\nError: " + status + " " + statusText);
+                            .catch((error: any) => {
+                                console.error("Failed to create prompt:", error);
+                                if (isSignedOutError(error)) {
+                                    // Keep the dialog open so the import can be retried after signing in
+                                    enableControls();
+                                    setImportStatus(describeRequestError(error), "import-validation-error");
+                                    return;
+                                }
+                                alert("Failed to create prompt.\nError: " + describeRequestError(error));
 
                                 // Close dialog after successful import
                                 enableControls(); // Re-enable on error
@@ -1454,18 +2204,825 @@ function setupDialogEventHandlers(): void {
                         console.error("Failed to create prompt:", e);
                         alert("Failed to create prompt. Error: " + e);
 
-                        // Close dialog after successful import
-                        enableControls(); // Re-enable on error
-                        closeDialog();
+                        // Close dialog after successful import
+                        enableControls(); // Re-enable on error
+                        closeDialog();
+                    }
+                } catch (e) {
+                    alert("Invalid JSON format. Please check your input.");
+                }
+            } else {
+                alert("Please enter JSON data to import.");
+            }
+        });
+    }
+
+    // Creates each valid file of the batch as its own prompt, one after another
+    async function importBatch(): Promise<void> {
+        const pendingEntries: BatchImportEntry[] = [];
+        for (const entry of batchImportEntries) {
+            if (entry.promptData && entry.selected && entry.status !== "imported") pendingEntries.push(entry);
+        }
+        if (pendingEntries.length === 0) return;
+
+        isLoading = true;
+        importButton.disabled = true;
+        importButton.textContent = "Importing...";
+        if (cancelButton) cancelButton.disabled = true;
+
+        // The tags of the dialog apply to every file; each file keeps its own title
+        const { title, ...sharedMetadata } = getImportMetadata();
+        let signedOutError: any = null;
+        for (let i = 0; i < pendingEntries.length; i++) {
+            const entry = pendingEntries[i];
+            entry.status = "importing";
+            entry.message = "";
+            renderBatchImportList();
+            setImportStatus(`Importing ${i + 1} of ${pendingEntries.length}: ${entry.fileName}`, "import-validation-info");
+
+            try {
+                const prompt = await (window as any).aiStudioExt.createMakerSuitePrompt(
+                    entry.promptName,
+                    entry.promptData,
+                    { format: getSelectedImportFormat(), metadata: { ...entry.metadata, ...sharedMetadata } }
+                );
+                entry.status = "imported";
+                entry.promptPath = (window as any).aiStudioExt.getAccountPath(String(prompt[0]));
+            } catch (e) {
+                console.error("Failed to create prompt:", entry.fileName, e);
+                entry.status = "failed";
+                entry.message = "Failed to create prompt. Error: " + describeRequestError(e);
+                // The remaining files would fail the same way
+                if (isSignedOutError(e)) signedOutError = e;
+            }
+            renderBatchImportList();
+            if (signedOutError) break;
+        }
+
+        isLoading = false;
+        importButton.textContent = "Import";
+        if (cancelButton) cancelButton.disabled = false;
+        updateBatchImportStatus();
+        if (signedOutError) setImportStatus(describeRequestError(signedOutError), "import-validation-error");
+    }
+}
+
+/**
+ * Gets the format chosen in the import dialog
+ * @returns The id of the chosen format, or undefined to detect the format automatically
+ */
+function getSelectedImportFormat(): string | undefined {
+    const formatSelect = dialogContainer?.querySelector(".import-format-select") as HTMLSelectElement | null;
+    return formatSelect?.value || undefined;
+}
+
+/**
+ * Shows which format the text to import was detected as
+ * @param parsed - The parsed text to import, or null if there is nothing to detect
+ */
+function updateDetectedFormat(parsed: { data: any; language?: string } | null): void {
+    const detectedSpan = dialogContainer?.querySelector(".import-format-detected") as HTMLElement | null;
+    if (!detectedSpan) return;
+
+    if (!parsed) {
+        detectedSpan.textContent = "";
+        return;
+    }
+
+    const detected = (window as any).aiStudioExt.detectPromptFormat(parsed.data);
+    const snippet = parsed.language ? `${SNIPPET_LANGUAGE_NAMES[parsed.language] ?? parsed.language} snippet, as ` : "";
+    if (detected.length === 0) {
+        detectedSpan.textContent = "Detected: unknown format";
+    } else if (detected[0].description) {
+        detectedSpan.textContent = `Detected: ${snippet}${detected[0].name} (${detected[0].description})`;
+    } else {
+        detectedSpan.textContent = `Detected: ${snippet}${detected[0].name}`;
+    }
+}
+
+/**
+ * Fills the format selector of the import dialog with the registered prompt formats
+ */
+function populateImportFormats(): void {
+    const formatSelect = dialogContainer?.querySelector(".import-format-select") as HTMLSelectElement | null;
+    if (!formatSelect) return;
+
+    formatSelect.innerHTML = "";
+    formatSelect.appendChild(new Option("Auto-detect", ""));
+    for (const format of (window as any).aiStudioExt.getPromptFormats()) {
+        formatSelect.appendChild(new Option(format.name, format.id));
+    }
+    formatSelect.value = "";
+}
+
+/**
+ * Checks whether the import dialog is in batch mode, i.e. several files were loaded on the file upload tab
+ * @returns True if the import button should import the loaded files
+ */
+function isBatchImportActive(): boolean {
+    const fileTab = dialogContainer?.querySelector("#file-tab") as HTMLElement | null;
+    return batchImportEntries.length > 0 && fileTab?.style.display !== "none";
+}
+
+/**
+ * Shows a message in the import dialog's validation area
+ * @param message - The message to show
+ * @param className - The validation class, e.g. "import-validation-error"
+ */
+function setImportStatus(message: string, className: string): void {
+    const errorDiv = dialogContainer?.querySelector("#import-validation-error") as HTMLElement | null;
+    if (!errorDiv) return;
+
+    errorDiv.textContent = message;
+    errorDiv.style.display = "flex";
+    errorDiv.classList.remove(
+        "import-validation-error",
+        "import-validation-warning",
+        "import-validation-info",
+        "import-validation-success"
+    );
+    errorDiv.classList.add(className);
+}
+
+/**
+ * Prefills the title and tags fields with the metadata of the text to import.
+ * Fields the user has edited are left as they are.
+ * @param metadata - The metadata read from the text to import
+ * @param defaultTitle - The title to use if the text has none, e.g. the name of the loaded file
+ */
+function updateImportMetadata(metadata: PromptMetadata, defaultTitle: string): void {
+    const values: [string, string][] = [
+        [".import-title-input", metadata.title ?? defaultTitle],
+        [".import-tags-input", (metadata.tags ?? []).join(", ")],
+    ];
+    for (const [selector, value] of values) {
+        const input = dialogContainer?.querySelector(selector) as HTMLInputElement | null;
+        if (input && input.dataset["edited"] !== "true") input.value = value;
+    }
+}
+
+/**
+ * Gets the title and tags entered in the import dialog
+ * @returns The metadata of the prompt to create, without the empty fields
+ */
+function getImportMetadata(): PromptMetadata {
+    const read = (selector: string) =>
+        ((dialogContainer?.querySelector(selector) as HTMLInputElement | null)?.value ?? "").trim();
+
+    const metadata: PromptMetadata = {};
+    const title = read(".import-title-input");
+    if (title) metadata.title = title;
+
+    const tags: string[] = [];
+    for (const tag of read(".import-tags-input").split(",")) {
+        if (tag.trim()) tags.push(tag.trim());
+    }
+    if (tags.length > 0) metadata.tags = tags;
+    return metadata;
+}
+
+/**
+ * Fills the model aliases editor with the alias table in use, one "model = gemini-model" line per alias
+ */
+function renderModelAliases(): void {
+    const textarea = dialogContainer?.querySelector(".import-model-aliases-textarea") as HTMLTextAreaElement | null;
+    if (!textarea) return;
+
+    const lines: string[] = [];
+    for (const [model, alias] of Object.entries((window as any).aiStudioExt.getModelAliases() as ModelAliases)) {
+        lines.push(`${model} = ${alias}`);
+    }
+    textarea.value = lines.join("\n");
+}
+
+/**
+ * Reads the model aliases entered in the editor. Empty lines and lines starting with "#" are skipped.
+ * @param text - The text of the editor, one "model = gemini-model" line per alias
+ * @returns The aliases by model name, and a message for each line that is not an alias
+ */
+function parseModelAliases(text: string): { aliases: ModelAliases; errors: string[] } {
+    const aliases: ModelAliases = Object.create(null);
+    const errors: string[] = [];
+    const lines = text.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line || line.startsWith("#")) continue;
+
+        const match = line.match(/^(.+?)\s*=\s*(.+)$/);
+        if (!match) {
+            errors.push(`Line ${i + 1} is not written as "model = gemini-model".`);
+            continue;
+        }
+        aliases[match[1]] = match[2];
+    }
+    return { aliases, errors };
+}
+
+/**
+ * Shows a message below the model aliases editor
+ * @param message - The message, or an empty string to hide it
+ * @param className - The validation class that styles the message
+ */
+function setModelAliasStatus(message: string, className: string): void {
+    const statusDiv = dialogContainer?.querySelector(".import-model-aliases-status") as HTMLElement | null;
+    if (!statusDiv) return;
+
+    statusDiv.textContent = message;
+    statusDiv.style.display = message ? "flex" : "none";
+    statusDiv.classList.remove(
+        "import-validation-info",
+        "import-validation-error",
+        "import-validation-success",
+        "import-validation-warning"
+    );
+    if (className) statusDiv.classList.add(className);
+}
+
+/**
+ * Shows a field for each template variable of the text to import, keeping the values already entered
+ * @param parsed - The parsed text to import, or null to hide the fields
+ */
+function renderTemplateVariables(parsed: { data: any; language?: string } | null): void {
+    const container = dialogContainer?.querySelector(".import-variables") as HTMLElement | null;
+    const fields = dialogContainer?.querySelector(".import-variables-fields") as HTMLElement | null;
+    if (!container || !fields) return;
+
+    const variables: TemplateVariable[] = parsed ? (window as any).aiStudioExt.findTemplateVariables(parsed.data) : [];
+    const previousValues = getTemplateValues();
+
+    // Keep the fields (and the focus) while the same variables are being edited
+    const names: string[] = [];
+    for (const variable of variables) {
+        names.push(variable.name);
+    }
+    if (fields.dataset["names"] === names.join("\n")) return;
+    fields.dataset["names"] = names.join("\n");
+
+    fields.innerHTML = "";
+    container.style.display = variables.length > 0 ? "block" : "none";
+    for (const variable of variables) {
+        const id = `import-variable-${variable.name}`;
+        const label = document.createElement("label");
+        label.htmlFor = id;
+        label.textContent = variable.name;
+        if (variable.description) label.title = variable.description;
+        fields.appendChild(label);
+
+        const input = document.createElement("input");
+        input.id = id;
+        input.dataset["variable"] = variable.name;
+        input.value = previousValues[variable.name] ?? variable.defaultValue ?? "";
+        input.placeholder = variable.description ?? "";
+        fields.appendChild(input);
+    }
+}
+
+/**
+ * Gets the values entered for the template variables
+ * @returns The non-empty values, by variable name
+ */
+function getTemplateValues(): { [name: string]: string } {
+    const values: { [name: string]: string } = Object.create(null);
+    const inputs = dialogContainer?.querySelectorAll(".import-variables-fields input") ?? [];
+    for (let i = 0; i < inputs.length; i++) {
+        const input = inputs[i] as HTMLInputElement;
+        if (input.value && input.dataset["variable"]) values[input.dataset["variable"]] = input.value;
+    }
+    return values;
+}
+
+/**
+ * Lists the template variables that have neither a value nor a default
+ * @param data - The prompt data
+ * @returns The names of the unfilled variables
+ */
+function getUnfilledTemplateVariables(data: any): string[] {
+    const values = getTemplateValues();
+    const unfilled: string[] = [];
+    for (const variable of (window as any).aiStudioExt.findTemplateVariables(data) as TemplateVariable[]) {
+        if (values[variable.name] === undefined && variable.defaultValue === undefined) unfilled.push(variable.name);
+    }
+    return unfilled;
+}
+
+/**
+ * Renders the conversation preview of the converted prompt: the run settings, tools, response schema,
+ * system instruction and every turn with its role, as they will be created in AI Studio
+ * @param prompt - The converted prompt (as returned by aiStudioExt.convertPromptData), or null to hide the preview
+ */
+function renderImportPreview(prompt: any[] | null | undefined): void {
+    const details = dialogContainer?.querySelector(".import-preview") as HTMLDetailsElement | null;
+    const body = dialogContainer?.querySelector(".import-preview-body") as HTMLElement | null;
+    if (!details || !body) return;
+
+    body.innerHTML = "";
+    if (!prompt?.[0]) {
+        details.style.display = "none";
+        return;
+    }
+
+    // Decode the payload that will be sent, so the preview shows exactly what the prompt will contain
+    let studioFile: any;
+    try {
+        studioFile = (window as any).aiStudioExt.exportPromptData(prompt[0], "aiStudio");
+    } catch (e) {
+        console.debug("Failed to decode the converted prompt for the preview:", e);
+        details.style.display = "none";
+        return;
+    }
+    details.style.display = "block";
+    const runSettings = studioFile.runSettings ?? {};
+
+    const addElement = (parent: HTMLElement, tagName: string, className: string, text?: string): HTMLElement => {
+        const element = document.createElement(tagName);
+        if (className) element.className = className;
+        if (text !== undefined) element.textContent = text;
+        parent.appendChild(element);
+        return element;
+    };
+
+    // Run settings
+    const settings = addElement(body, "div", "import-preview-settings");
+    const describeSetting = (name: string, value: any) =>
+        addElement(settings, "span", "", `${name}: ${value ?? "default"}`);
+    describeSetting("Model", runSettings.model?.replace(/^models\//, ""));
+    describeSetting("Temperature", runSettings.temperature);
+    describeSetting("Top P", runSettings.topP);
+    describeSetting("Top K", runSettings.topK);
+    describeSetting("Max output tokens", runSettings.maxOutputTokens);
+    if (runSettings.endTokens?.length) describeSetting("Stop sequences", runSettings.endTokens.join(", "));
+    describeSetting("Output", runSettings.responseMimeType);
+
+    // Tools
+    const tools: string[] = [];
+    if (runSettings.enableCodeExecution) tools.push("Code execution");
+    if (runSettings.enableSearchAsATool) tools.push("Grounding with Google Search");
+    if (runSettings.enableBrowseAsATool) tools.push("Browse");
+    if (tools.length > 0) describeSetting("Tools", tools.join(", "));
+
+    if (runSettings.responseSchema) {
+        const schema = addElement(body, "details", "") as HTMLDetailsElement;
+        addElement(schema, "summary", "", "Response schema");
+        addElement(schema, "pre", "", JSON.stringify(runSettings.responseSchema, null, 2));
+    }
+
+    // Conversation
+    const addTurn = (role: string, label: string, content: string) => {
+        const turn = addElement(body, "div", `import-preview-turn ${role}`);
+        addElement(turn, "div", "import-preview-role", label);
+        addElement(turn, "div", "import-preview-text", content);
+    };
+
+    const systemText = studioFile.systemInstruction?.parts?.[0]?.text;
+    if (systemText) addTurn("system", "System instruction", systemText);
+
+    const chunks = studioFile.chunkedPrompt?.chunks ?? [];
+    for (const chunk of chunks) {
+        const role = chunk.role === "model" ? "model" : "user";
+        addTurn(role, role, chunk.text ?? "");
+    }
+    if (chunks.length === 0) addElement(body, "div", "import-preview-settings", "No turns.");
+
+    const pendingText = studioFile.chunkedPrompt?.pendingInputs?.[0]?.text;
+    if (pendingText) addTurn("user", "user · left in the prompt box", pendingText);
+}
+
+/**
+ * Formats a diagnostic as "path (line 3, column 5): message"
+ * @param diagnostic - The diagnostic to format
+ * @returns The formatted diagnostic
+ */
+function formatImportDiagnostic(diagnostic: ImportDiagnosticItem): string {
+    let location = diagnostic.path;
+    if (diagnostic.line !== undefined) {
+        location += `${location ? " " : ""}(line ${diagnostic.line}, column ${diagnostic.column})`;
+    }
+    return location ? `${location}: ${diagnostic.message}` : diagnostic.message;
+}
+
+/**
+ * Describes why a text is not valid JSON, with the line and column of the error if the browser reports its position
+ * @param text - The text that failed to parse
+ * @returns The error diagnostic
+ */
+function describeJsonSyntaxError(text: string): ImportDiagnosticItem {
+    const diagnostic: ImportDiagnosticItem = {
+        path: "",
+        message: "Invalid JSON format, and no Gemini API call was found in it as code.",
+    };
+    try {
+        JSON.parse(text);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        diagnostic.message = `Invalid JSON: ${message.replace(/\s*\(line \d+ column \d+\)$/, "")}`;
+
+        const position = message.match(/at position (\d+)/);
+        if (position) {
+            const lines = text.slice(0, Number(position[1])).split("\n");
+            diagnostic.line = lines.length;
+            diagnostic.column = lines[lines.length - 1].length + 1;
+        }
+    }
+    return diagnostic;
+}
+
+/**
+ * Renders the expandable list of errors, warnings and dropped or defaulted fields below the format selector
+ * @param diagnostics - The diagnostics of the text to import, or null to hide the list
+ */
+function renderImportDiagnostics(diagnostics: ImportDiagnosticsReport | null): void {
+    const details = dialogContainer?.querySelector(".import-diagnostics") as HTMLDetailsElement | null;
+    if (!details) return;
+
+    const summary = details.querySelector("summary") as HTMLElement;
+    const list = details.querySelector("ul") as HTMLElement;
+    list.innerHTML = "";
+
+    const total = diagnostics
+        ? diagnostics.errors.length + diagnostics.warnings.length + diagnostics.fieldChanges.length
+        : 0;
+    if (!diagnostics || total === 0) {
+        details.style.display = "none";
+        return;
+    }
+
+    const parts: string[] = [];
+    if (diagnostics.errors.length > 0) parts.push(`${diagnostics.errors.length} error(s)`);
+    if (diagnostics.warnings.length > 0) parts.push(`${diagnostics.warnings.length} warning(s)`);
+    if (diagnostics.fieldChanges.length > 0) {
+        parts.push(`${diagnostics.fieldChanges.length} field(s) dropped or defaulted`);
+    }
+    summary.textContent = `Details: ${parts.join(", ")}`;
+    details.style.display = "block";
+
+    const items: { kind: string; icon: string; diagnostic: ImportDiagnosticItem }[] = [];
+    for (const error of diagnostics.errors) {
+        items.push({ kind: "error", icon: "error", diagnostic: error });
+    }
+    for (const warning of diagnostics.warnings) {
+        items.push({ kind: "warning", icon: "warning", diagnostic: warning });
+    }
+    for (const fieldChange of diagnostics.fieldChanges) {
+        const icon = fieldChange.change === "dropped" ? "remove_circle_outline" : "settings_backup_restore";
+        items.push({ kind: fieldChange.change, icon, diagnostic: fieldChange });
+    }
+
+    for (const { kind, icon, diagnostic } of items) {
+        const item = document.createElement("li");
+
+        const iconSpan = document.createElement("span");
+        iconSpan.className = `material-symbols-outlined notranslate ${kind}`;
+        iconSpan.textContent = icon;
+        item.appendChild(iconSpan);
+
+        const text = document.createElement("div");
+        if (diagnostic.path) {
+            const path = document.createElement("span");
+            path.className = "import-diagnostics-path";
+            path.textContent = diagnostic.path;
+            text.appendChild(path);
+            text.appendChild(document.createTextNode(" "));
+        }
+        if (diagnostic.line !== undefined) {
+            text.appendChild(document.createTextNode(`(line ${diagnostic.line}, column ${diagnostic.column}) `));
+        }
+        text.appendChild(document.createTextNode(diagnostic.message));
+        item.appendChild(text);
+
+        // Clicking a located diagnostic moves the cursor of the text box to it
+        if (diagnostic.line !== undefined) {
+            item.classList.add("located");
+            item.addEventListener("click", () => selectTextareaPosition(diagnostic.line!, diagnostic.column ?? 1));
+        }
+        list.appendChild(item);
+    }
+}
+
+/**
+ * Moves the cursor of the import text box to a line and column
+ * @param line - The 1-based line
+ * @param column - The 1-based column
+ */
+function selectTextareaPosition(line: number, column: number): void {
+    const jsonTextarea = dialogContainer?.querySelector(".import-json-textarea") as HTMLTextAreaElement | null;
+    if (!jsonTextarea) return;
+
+    const lines = jsonTextarea.value.split("\n");
+    let offset = 0;
+    for (let i = 0; i < line - 1 && i < lines.length; i++) {
+        offset += lines[i].length + 1;
+    }
+    offset += column - 1;
+    jsonTextarea.focus();
+    jsonTextarea.setSelectionRange(offset, offset);
+}
+
+/**
+ * Summarizes the batch import in the validation area and enables the import button if files remain to be imported
+ */
+function updateBatchImportStatus(): void {
+    const importButton = dialogContainer?.querySelector(".import-button") as HTMLButtonElement | null;
+
+    let importable = 0;
+    let selected = 0;
+    let imported = 0;
+    let failed = 0;
+    let invalid = 0;
+    for (const entry of batchImportEntries) {
+        if (entry.status === "imported") imported++;
+        else if (entry.status === "failed") failed++;
+        else if (entry.status === "invalid") invalid++;
+        if (entry.promptData && entry.status !== "imported") {
+            importable++;
+            if (entry.selected) selected++;
+        }
+    }
+
+    if (importButton) {
+        importButton.disabled = selected === 0;
+        importButton.textContent = failed > 0 ? "Retry failed" : "Import";
+    }
+
+    if (imported > 0 || failed > 0) {
+        const summary = `Imported ${imported} of ${imported + failed} prompt(s).`;
+        if (failed > 0) {
+            setImportStatus(`${summary} ${failed} failed, see the list for details.`, "import-validation-error");
+        } else {
+            setImportStatus(`${summary} Open them from the list below.`, "import-validation-success");
+        }
+    } else if (importable === 0) {
+        setImportStatus("None of the files is a valid prompt.", "import-validation-error");
+    } else if (selected === 0) {
+        setImportStatus("No prompts are selected. Select the prompts to import in the list.", "import-validation-warning");
+    } else if (invalid > 0) {
+        setImportStatus(
+            `${importable} of ${batchImportEntries.length} file(s) are valid prompts, ${selected} selected. Invalid files will be skipped.`,
+            "import-validation-warning"
+        );
+    } else if (selected < importable) {
+        setImportStatus(`${selected} of ${importable} valid prompt(s) selected. Ready to import!`, "import-validation-success");
+    } else {
+        setImportStatus(`${importable} file(s) are valid prompts. Ready to import!`, "import-validation-success");
+    }
+}
+
+/**
+ * Renders the per-file list of the batch import
+ */
+function renderBatchImportList(): void {
+    const list = dialogContainer?.querySelector(".import-batch-list") as HTMLElement | null;
+    if (!list) return;
+
+    list.innerHTML = "";
+    list.style.display = batchImportEntries.length > 0 ? "block" : "none";
+
+    for (const entry of batchImportEntries) {
+        const item = document.createElement("li");
+        item.className = "import-batch-item";
+
+        // Valid prompts can be left out of the import
+        const checkbox = document.createElement("input");
+        checkbox.type = "checkbox";
+        checkbox.className = "import-batch-item-checkbox";
+        checkbox.checked = entry.selected && !!entry.promptData;
+        checkbox.disabled = !entry.promptData || entry.status === "imported" || entry.status === "importing";
+        checkbox.addEventListener("change", () => {
+            entry.selected = checkbox.checked;
+            updateBatchImportStatus();
+        });
+        item.appendChild(checkbox);
+
+        const icon = document.createElement("span");
+        icon.className = `import-batch-item-icon material-symbols-outlined notranslate ${entry.status}`;
+        icon.textContent = BATCH_IMPORT_STATUS_ICONS[entry.status];
+        item.appendChild(icon);
+
+        const details = document.createElement("div");
+        const name = document.createElement("div");
+        name.className = "import-batch-item-name";
+        name.textContent = entry.fileName;
+        details.appendChild(name);
+
+        const message = document.createElement("div");
+        message.className = "import-batch-item-message";
+        if (entry.status === "imported" && entry.promptPath) {
+            const link = document.createElement("a");
+            link.href = entry.promptPath;
+            link.target = "_blank";
+            link.textContent = `Open "${entry.promptName}"`;
+            message.appendChild(link);
+        } else {
+            message.textContent = entry.message;
+        }
+        details.appendChild(message);
+
+        item.appendChild(details);
+        list.appendChild(item);
+    }
+}
+
+/**
+ * Validates a file of a batch import by converting it like the text box content
+ * @param importFile - The file name and content
+ * @returns The batch import entry for the file
+ */
+function validateBatchImportFile(importFile: ImportFile): BatchImportEntry {
+    const entry: BatchImportEntry = {
+        source: importFile,
+        fileName: importFile.name,
+        promptName: (importFile.name.split("/").pop() ?? importFile.name).replace(/\.json$/i, ""),
+        promptData: null,
+        selected: true,
+        status: "invalid",
+        message: importFile.error ?? "",
+    };
+    if (importFile.text === undefined) return entry;
+
+    const parsed = parseImportText(importFile.text.trim());
+    if (!parsed) {
+        entry.message = "Invalid JSON format.";
+        return entry;
+    }
+
+    // The title, description and tags stored in the file, unless given for the file
+    const metadata: PromptMetadata = {
+        ...(window as any).aiStudioExt.readPromptMetadata(parsed.data, getSelectedImportFormat()),
+        ...importFile.metadata,
+    };
+    entry.metadata = metadata;
+    entry.promptName = metadata.title ?? entry.promptName;
+
+    // Each file fills its template variables with the defaults of its own "variables" block
+    const filledData = (window as any).aiStudioExt.fillTemplateVariables(parsed.data, {});
+    const { title, ...sharedMetadata } = getImportMetadata();
+    const diagnostics: ImportDiagnosticsReport = (window as any).aiStudioExt.diagnosePromptData(
+        entry.promptName,
+        filledData,
+        { format: getSelectedImportFormat(), metadata: { ...metadata, ...sharedMetadata } }
+    );
+    if (diagnostics.errors.length > 0) {
+        entry.message = diagnostics.errors.map(formatImportDiagnostic).join(" ");
+        return entry;
+    }
+    for (const variable of (window as any).aiStudioExt.findTemplateVariables(parsed.data) as TemplateVariable[]) {
+        if (variable.defaultValue === undefined) {
+            diagnostics.warnings.push({ path: "", message: `No value for {{${variable.name}}}; the placeholder is kept as is.` });
+        }
+    }
+
+    entry.promptData = filledData;
+    entry.status = diagnostics.warnings.length > 0 ? "warning" : "valid";
+    entry.message = diagnostics.warnings.map(formatImportDiagnostic).join(" ");
+    return entry;
+}
+
+/**
+ * Checks whether a file is a zip archive
+ * @param file - The file to check
+ * @returns True if the file is a zip archive
+ */
+function isZipFile(file: File): boolean {
+    return file.name.toLowerCase().endsWith(".zip") || file.type === "application/zip";
+}
+
+/**
+ * Reads the files selected for a batch import, expanding zip archives into their JSON files
+ * @param files - The selected files
+ * @returns The name and text of each file, or an error for files that cannot be imported
+ */
+async function readImportFiles(files: File[]): Promise<ImportFile[]> {
+    const importFiles: ImportFile[] = [];
+    for (const file of files) {
+        try {
+            if (isZipFile(file)) {
+                const entries = await readZipEntries(file);
+                for (const entry of entries) {
+                    if (entry.name.toLowerCase().endsWith(".json")) {
+                        importFiles.push({ name: entry.name, text: new TextDecoder().decode(entry.data) });
+                    } else if (entry.name.toLowerCase().endsWith(".jsonl")) {
+                        importFiles.push(...readBatchRequestLines(entry.name, new TextDecoder().decode(entry.data)));
                     }
-                } catch (e) {
-                    alert("Invalid JSON format. Please check your input.");
                 }
+                if (entries.length === 0) {
+                    importFiles.push({ name: file.name, error: "The archive contains no files." });
+                }
+            } else if (isJsonlFile(file)) {
+                importFiles.push(...readBatchRequestLines(file.name, await file.text()));
+            } else if (file.type === "application/json" || file.name.toLowerCase().endsWith(".json")) {
+                importFiles.push({ name: file.name, text: await file.text() });
             } else {
-                alert("Please enter JSON data to import.");
+                importFiles.push({ name: file.name, error: "Unsupported file type. Please upload .json, .jsonl or .zip files." });
             }
-        });
+        } catch (e) {
+            console.error("Failed to read file:", file.name, e);
+            importFiles.push({ name: file.name, error: "Failed to read file. Error: " + e });
+        }
+    }
+    return importFiles;
+}
+
+/**
+ * Checks whether a file is a JSON Lines file, such as a Gemini Batch API input file
+ * @param file - The file to check
+ * @returns True if the file has the .jsonl extension
+ */
+function isJsonlFile(file: File): boolean {
+    return file.name.toLowerCase().endsWith(".jsonl");
+}
+
+/**
+ * Splits a Gemini Batch API input file into one import file per request. Each line is either
+ * `{"key": ..., "request": {...}}` (Gemini API) or `{"request": {...}}` (Vertex AI); the prompts are named
+ * after the keys, or after the line numbers when there are no keys
+ * @param fileName - The name of the JSONL file
+ * @param text - The content of the file
+ * @returns An import file for each non-empty line
+ */
+function readBatchRequestLines(fileName: string, text: string): ImportFile[] {
+    const baseName = (fileName.split("/").pop() ?? fileName).replace(/\.jsonl$/i, "");
+    const importFiles: ImportFile[] = [];
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].trim()) continue;
+
+        let line: any;
+        try {
+            line = JSON.parse(lines[i]);
+        } catch (e) {
+            importFiles.push({ name: `${fileName}, line ${i + 1}`, error: "Invalid JSON on this line." });
+            continue;
+        }
+
+        const key = typeof line?.key === "string" || typeof line?.key === "number" ? String(line.key) : null;
+        const title = key ?? `${baseName} line ${i + 1}`;
+        const name = `${fileName}, ${key ? `key "${key}"` : `line ${i + 1}`}`;
+        if (line?.request == null || typeof line.request !== "object") {
+            importFiles.push({ name, error: 'The line has no "request" object.' });
+            continue;
+        }
+        importFiles.push({ name, text: JSON.stringify(line.request), metadata: { title } });
+    }
+    if (importFiles.length === 0) {
+        importFiles.push({ name: fileName, error: "The file contains no requests." });
     }
+    return importFiles;
+}
+
+/**
+ * Extracts the files of a zip archive. Only stored and deflated entries are supported, which covers
+ * archives created by the operating system's "compress" commands and by Google Drive downloads.
+ * @param file - The zip archive
+ * @returns The path and content of each file in the archive, without directories
+ */
+async function readZipEntries(file: Blob): Promise<{ name: string; data: Uint8Array }[]> {
+    const buffer = await file.arrayBuffer();
+    const view = new DataView(buffer);
+
+    // Find the end of central directory record, which is followed by a comment of up to 64 KB
+    let endOffset = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset === -1) throw new Error("Not a zip archive");
+
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let offset = view.getUint32(endOffset + 16, true);
+
+    const entries: { name: string; data: Uint8Array }[] = [];
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== 0x02014b50) throw new Error("Invalid zip central directory");
+
+        const flags = view.getUint16(offset + 8, true);
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localHeaderOffset = view.getUint32(offset + 42, true);
+        const name = new TextDecoder().decode(new Uint8Array(buffer, offset + 46, nameLength));
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        // Skip directories, encrypted files and macOS resource forks
+        if (name.endsWith("/") || flags & 0x1 || name.startsWith("__MACOSX/")) continue;
+
+        const localNameLength = view.getUint16(localHeaderOffset + 26, true);
+        const localExtraLength = view.getUint16(localHeaderOffset + 28, true);
+        const dataOffset = localHeaderOffset + 30 + localNameLength + localExtraLength;
+        const compressed = new Uint8Array(buffer, dataOffset, compressedSize);
+
+        if (method === 0) {
+            entries.push({ name, data: compressed });
+        } else if (method === 8) {
+            const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+            entries.push({ name, data: new Uint8Array(await new Response(stream).arrayBuffer()) });
+        } else {
+            console.warn("Unsupported zip compression method:", method, name);
+        }
+    }
+    return entries;
 }
 
 /**
@@ -1490,6 +3047,25 @@ function showImportDialog(): void {
         fileInfo.innerHTML = "";
     }
 
+    // Reset batch import
+    batchImportEntries = [];
+    renderBatchImportList();
+
+    // Reset the format, listing formats registered since the dialog was created
+    populateImportFormats();
+    updateDetectedFormat(null);
+    renderTemplateVariables(null);
+    renderImportDiagnostics(null);
+    renderImportPreview(null);
+
+    // Reset the title and tags
+    const metadataInputs = overlayContainer.querySelectorAll(".import-metadata input");
+    for (let i = 0; i < metadataInputs.length; i++) {
+        const input = metadataInputs[i] as HTMLInputElement;
+        input.value = "";
+        delete input.dataset["edited"];
+    }
+
     // Reset JSON tab
     if (jsonTextarea) jsonTextarea.value = "";
     if (importButton) importButton.disabled = true;
@@ -1522,6 +3098,23 @@ function showImportDialog(): void {
     // Show the dialog
     overlayContainer.style.display = "flex";
     isImportDialogOpen = true;
+
+    // Check model names against the models of the signed-in account once they are loaded
+    (window as any).aiStudioExt.loadAvailableModels().then(revalidateImportInput);
+    (window as any).aiStudioExt.loadModelAliases().then(() => {
+        renderModelAliases();
+        setModelAliasStatus("", "");
+    });
+}
+
+/**
+ * Validates the text or files to import again, e.g. once the models or model aliases used to check them change
+ */
+function revalidateImportInput(): void {
+    const formatSelect = overlayContainer?.querySelector(".import-format-select") as HTMLSelectElement | null;
+    const jsonTextarea = overlayContainer?.querySelector(".import-json-textarea") as HTMLTextAreaElement | null;
+    const hasInput = batchImportEntries.length > 0 || !!jsonTextarea?.value.trim();
+    if (isImportDialogOpen && formatSelect && hasInput) formatSelect.dispatchEvent(new Event("change"));
 }
 
 /**
@@ -1535,6 +3128,539 @@ function closeDialog(): void {
     isImportDialogOpen = false;
 }
 
+/**
+ * Creates the export dialog but keeps it hidden
+ */
+function createExportDialog(): void {
+    // Create the overlay container
+    exportOverlayContainer = document.createElement("div");
+    exportOverlayContainer.className = "ai-studio-import-dialog-overlay";
+    document.body.appendChild(exportOverlayContainer);
+
+    // Create the dialog container
+    exportDialogContainer = document.createElement("div");
+    exportDialogContainer.className = "ai-studio-import-dialog";
+    exportOverlayContainer.appendChild(exportDialogContainer);
+
+    // Create dialog content
+    exportDialogContainer.innerHTML = `
+        <h2 class="import-dialog-title">
+            Export Prompt
+            <button class="close-button">
+                <span aria-hidden="true" class="material-symbols-outlined notranslate">close</span>
+            </button>
+        </h2>
+        <div class="import-dialog-content">
+            <div class="import-dialog-intro">
+                Download the current prompt as:
+            </div>
+            <div class="import-dialog-tabs">
+                <div class="import-tab active" data-format="generateContent">Gemini API (models.generateContent format)</div>
+                <div class="import-tab" data-format="aiStudio">AI Studio Prompt</div>
+            </div>
+            <div class="import-tab-content">
+                <textarea class="import-json-textarea" readonly></textarea>
+            </div>
+            <div class="import-actions">
+                <div id="export-status" class="import-validation-info" style="display: none;"></div>
+                <button class="import-button export-download-button">Download</button>
+                <button class="cancel-button export-copy-button">Copy</button>
+                <button class="cancel-button export-close-button">Close</button>
+            </div>
+        </div>
+    `;
+
+    // Close dialog when clicking on the overlay, but only if the mouse down also started on the overlay
+    let mouseDownOnOverlay = false;
+    exportOverlayContainer.addEventListener("mousedown", (e) => {
+        mouseDownOnOverlay = e.target === exportOverlayContainer;
+    });
+    exportOverlayContainer.addEventListener("click", (e) => {
+        if (e.target === exportOverlayContainer && mouseDownOnOverlay) {
+            closeExportDialog();
+        }
+    });
+
+    const closeButton = exportDialogContainer.querySelector(".close-button") as HTMLButtonElement;
+    closeButton.addEventListener("click", closeExportDialog);
+    const cancelButton = exportDialogContainer.querySelector(".export-close-button") as HTMLButtonElement;
+    cancelButton.addEventListener("click", closeExportDialog);
+
+    // Format switching re-renders the exported JSON
+    const tabs = exportDialogContainer.querySelectorAll(".import-tab") as NodeListOf<HTMLElement>;
+    for (let i = 0; i < tabs.length; i++) {
+        tabs[i].addEventListener("click", () => {
+            for (let j = 0; j < tabs.length; j++) {
+                tabs[j].classList.remove("active");
+            }
+            tabs[i].classList.add("active");
+            renderExportedPrompt();
+        });
+    }
+
+    const downloadButton = exportDialogContainer.querySelector(".export-download-button") as HTMLButtonElement;
+    downloadButton.addEventListener("click", () => {
+        const jsonTextarea = exportDialogContainer!.querySelector(".import-json-textarea") as HTMLTextAreaElement;
+        if (!exportedPrompt || !jsonTextarea.value) return;
+
+        const title = exportedPrompt[4]?.[0] || "prompt";
+        const blob = new Blob([jsonTextarea.value], { type: "application/json" });
+        const link = document.createElement("a");
+        link.href = URL.createObjectURL(blob);
+        link.download = `${title.replace(/[\\/:*?"<>|]+/g, "_")}.json`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+    });
+
+    const copyButton = exportDialogContainer.querySelector(".export-copy-button") as HTMLButtonElement;
+    copyButton.addEventListener("click", async () => {
+        const jsonTextarea = exportDialogContainer!.querySelector(".import-json-textarea") as HTMLTextAreaElement;
+        if (!jsonTextarea.value) return;
+        await navigator.clipboard.writeText(jsonTextarea.value);
+        setExportStatus("Copied to clipboard.", "import-validation-success");
+    });
+}
+
+/**
+ * Shows a status message in the export dialog
+ *
+ * @param {string} message - The message to show
+ * @param {string} className - The validation class to style the message with (e.g. "import-validation-error")
+ */
+function setExportStatus(message: string, className: string): void {
+    const statusDiv = exportDialogContainer?.querySelector("#export-status") as HTMLElement | null;
+    if (!statusDiv) return;
+
+    statusDiv.textContent = message;
+    statusDiv.style.display = "flex";
+    statusDiv.classList.remove(
+        "import-validation-info",
+        "import-validation-error",
+        "import-validation-success",
+        "import-validation-warning"
+    );
+    statusDiv.classList.add(className);
+}
+
+/**
+ * Renders the fetched prompt in the export dialog using the selected format
+ */
+function renderExportedPrompt(): void {
+    if (!exportDialogContainer) return;
+
+    const jsonTextarea = exportDialogContainer.querySelector(".import-json-textarea") as HTMLTextAreaElement;
+    const activeTab = exportDialogContainer.querySelector(".import-tab.active") as HTMLElement;
+    const downloadButton = exportDialogContainer.querySelector(".export-download-button") as HTMLButtonElement;
+
+    if (!exportedPrompt) {
+        jsonTextarea.value = "";
+        downloadButton.disabled = true;
+        return;
+    }
+
+    const format = activeTab?.getAttribute("data-format") ?? "generateContent";
+    const exported = (window as any).aiStudioExt.exportPromptData(exportedPrompt, format);
+    jsonTextarea.value = JSON.stringify(exported, null, 4);
+    downloadButton.disabled = false;
+}
+
+/**
+ * Gets the ID of the prompt that is currently open
+ *
+ * @returns {string | null} The prompt ID, or null if no saved prompt is open
+ */
+function getCurrentPromptId(): string | null {
+    const match = window.location.pathname.match(/\/prompts\/([^/]+)/);
+    if (!match || ["new_chat", "import", "export", "library"].includes(match[1])) return null;
+    return match[1];
+}
+
+/**
+ * Shows the export dialog and loads the current prompt into it
+ */
+async function showExportDialog(): Promise<void> {
+    if (isExportDialogOpen || !exportOverlayContainer) return;
+
+    // Reset the dialog state
+    exportedPrompt = null;
+    renderExportedPrompt();
+
+    exportOverlayContainer.style.display = "flex";
+    isExportDialogOpen = true;
+
+    const promptId = getCurrentPromptId();
+    if (!promptId) {
+        setExportStatus("Open a saved prompt to export it.", "import-validation-warning");
+        return;
+    }
+
+    exportRequest?.abort();
+    const request = new AbortController();
+    exportRequest = request;
+
+    setExportStatus("Loading prompt...", "import-validation-info");
+    try {
+        const prompt = await (window as any).aiStudioExt.fetchMakerSuitePrompt(promptId, request.signal);
+        // Ignore responses for an earlier opening of the dialog
+        if (request !== exportRequest) return;
+        exportedPrompt = prompt;
+        renderExportedPrompt();
+        setExportStatus("Ready to export. Unsaved changes are not included.", "import-validation-success");
+    } catch (error) {
+        if (request !== exportRequest) return;
+        console.error("Failed to fetch prompt:", error);
+        setExportStatus("Failed to load the prompt: " + describeRequestError(error), "import-validation-error");
+    }
+}
+
+/**
+ * Closes the export dialog
+ */
+function closeExportDialog(): void {
+    if (!exportOverlayContainer) return;
+
+    exportOverlayContainer.style.display = "none";
+    isExportDialogOpen = false;
+    exportRequest?.abort();
+    exportRequest = null;
+}
+
+/**
+ * Creates the prompt library dialog but keeps it hidden
+ */
+function createLibraryDialog(): void {
+    // Create the overlay container
+    libraryOverlayContainer = document.createElement("div");
+    libraryOverlayContainer.className = "ai-studio-import-dialog-overlay";
+    document.body.appendChild(libraryOverlayContainer);
+
+    // Create the dialog container
+    libraryDialogContainer = document.createElement("div");
+    libraryDialogContainer.className = "ai-studio-import-dialog";
+    libraryOverlayContainer.appendChild(libraryDialogContainer);
+
+    // Create dialog content
+    libraryDialogContainer.innerHTML = `
+        <h2 class="import-dialog-title">
+            Prompt Library
+            <button class="close-button">
+                <span aria-hidden="true" class="material-symbols-outlined notranslate">close</span>
+            </button>
+        </h2>
+        <div class="import-dialog-content">
+            <div class="library-filters">
+                <input type="search" class="library-search" placeholder="Search titles, system instructions and turns" />
+                <select class="library-model-filter">
+                    <option value="">All models</option>
+                </select>
+            </div>
+            <div class="library-summary"></div>
+            <div class="library-results">
+                <table class="library-table">
+                    <thead>
+                        <tr><th>Title</th><th>Model</th><th class="library-number">Turns</th></tr>
+                    </thead>
+                    <tbody></tbody>
+                </table>
+            </div>
+            <div class="import-actions">
+                <div id="library-status" class="import-validation-info" style="display: none;"></div>
+                <button class="cancel-button library-refresh-button">Refresh</button>
+                <button class="cancel-button library-close-button">Close</button>
+            </div>
+        </div>
+    `;
+
+    // Close dialog when clicking on the overlay, but only if the mouse down also started on the overlay
+    let mouseDownOnOverlay = false;
+    libraryOverlayContainer.addEventListener("mousedown", (e) => {
+        mouseDownOnOverlay = e.target === libraryOverlayContainer;
+    });
+    libraryOverlayContainer.addEventListener("click", (e) => {
+        if (e.target === libraryOverlayContainer && mouseDownOnOverlay) {
+            closeLibraryDialog();
+        }
+    });
+
+    const closeButton = libraryDialogContainer.querySelector(".close-button") as HTMLButtonElement;
+    closeButton.addEventListener("click", closeLibraryDialog);
+    const cancelButton = libraryDialogContainer.querySelector(".library-close-button") as HTMLButtonElement;
+    cancelButton.addEventListener("click", closeLibraryDialog);
+    const refreshButton = libraryDialogContainer.querySelector(".library-refresh-button") as HTMLButtonElement;
+    refreshButton.addEventListener("click", () => refreshPromptLibrary());
+
+    // Searching and filtering only re-render the loaded prompts
+    const filters = libraryDialogContainer.querySelectorAll(".library-filters input, .library-filters select");
+    for (let i = 0; i < filters.length; i++) {
+        filters[i].addEventListener("input", () => {
+            renderLibraryResults();
+            // Turns are only read once they are searched
+            if (getLibraryFilter().query) loadLibraryContent();
+        });
+    }
+}
+
+/**
+ * Shows a status message in the prompt library dialog
+ *
+ * @param {string} message - The message to show
+ * @param {string} className - The validation class to style the message with (e.g. "import-validation-error")
+ */
+function setLibraryStatus(message: string, className: string): void {
+    const statusDiv = libraryDialogContainer?.querySelector("#library-status") as HTMLElement | null;
+    if (!statusDiv) return;
+
+    statusDiv.textContent = message;
+    statusDiv.style.display = "flex";
+    statusDiv.classList.remove(
+        "import-validation-info",
+        "import-validation-error",
+        "import-validation-success",
+        "import-validation-warning"
+    );
+    statusDiv.classList.add(className);
+}
+
+/**
+ * Shows the prompt library dialog, loading the library the first time or when the account has changed
+ */
+function showLibraryDialog(): void {
+    if (isLibraryDialogOpen || !libraryOverlayContainer) return;
+
+    libraryOverlayContainer.style.display = "flex";
+    isLibraryDialogOpen = true;
+    (libraryDialogContainer?.querySelector(".library-search") as HTMLInputElement | null)?.focus();
+
+    if (!isLibraryLoaded || libraryAuthUser !== (window as any).aiStudioExt.getAuthUser()) {
+        refreshPromptLibrary();
+    } else {
+        renderLibraryResults();
+        if (getLibraryFilter().query) loadLibraryContent();
+    }
+}
+
+/**
+ * Closes the prompt library dialog and stops loading the library
+ */
+function closeLibraryDialog(): void {
+    if (!libraryOverlayContainer) return;
+
+    libraryOverlayContainer.style.display = "none";
+    isLibraryDialogOpen = false;
+    libraryRequest?.abort();
+    libraryRequest = null;
+}
+
+/**
+ * Loads the prompt library again, page by page. Prompts ListPrompts lists without their turns are completed from
+ * the ones already read, and the others are read when the library is searched.
+ */
+async function refreshPromptLibrary(): Promise<void> {
+    libraryRequest?.abort();
+    const request = new AbortController();
+    libraryRequest = request;
+
+    const authUser = (window as any).aiStudioExt.getAuthUser();
+    if (authUser !== libraryAuthUser) libraryContent = new Map();
+    libraryPrompts = [];
+    isLibraryLoaded = false;
+    libraryAuthUser = authUser;
+    updateLibraryModelFilter();
+    renderLibraryResults();
+    setLibraryStatus("Loading prompts...", "import-validation-info");
+
+    try {
+        await (window as any).aiStudioExt.loadPromptLibrary({
+            signal: request.signal,
+            onPage: (page: PromptLibraryItem[]) => {
+                for (const prompt of page) {
+                    libraryPrompts.push(prompt.hasContent ? prompt : libraryContent.get(prompt.name) ?? prompt);
+                }
+                updateLibraryModelFilter();
+                renderLibraryResults();
+                setLibraryStatus(`Loading prompts... ${libraryPrompts.length} so far`, "import-validation-info");
+            },
+        });
+    } catch (error) {
+        if (request.signal.aborted) return;
+        console.error("Failed to load the prompt library:", error);
+        setLibraryStatus("Failed to load the prompt library: " + describeRequestError(error), "import-validation-error");
+        return;
+    }
+    isLibraryLoaded = true;
+    setLibraryStatus(`${libraryPrompts.length} prompts loaded.`, "import-validation-success");
+    if (getLibraryFilter().query) await loadLibraryContent();
+}
+
+/**
+ * Reads the system instruction and turns of the prompts that were listed without them, a few at a time, so that
+ * they can be searched. The prompts read are kept across refreshes of the library.
+ */
+async function loadLibraryContent(): Promise<void> {
+    // The prompts are read once every page is listed, so that none are left out
+    if (!isLibraryLoaded || libraryRequest?.signal.aborted) return;
+    libraryRequest ??= new AbortController();
+    const request = libraryRequest;
+    // Searching again while the prompts are read does not start reading them a second time
+    if (libraryContentSignal === request.signal) return;
+
+    const pending: string[] = [];
+    for (const prompt of libraryPrompts) {
+        if (!prompt.hasContent) pending.push(prompt.name);
+    }
+    if (pending.length === 0) return;
+
+    libraryContentSignal = request.signal;
+    try {
+        for (let i = 0; i < pending.length; i += LIBRARY_CONTENT_BATCH_SIZE) {
+            setLibraryStatus(`Reading prompts for search: ${i} of ${pending.length}`, "import-validation-info");
+            const batch = pending.slice(i, i + LIBRARY_CONTENT_BATCH_SIZE);
+            const results = await Promise.allSettled(
+                batch.map((name) => (window as any).aiStudioExt.loadPromptContent(name, request.signal))
+            );
+            if (request.signal.aborted) return;
+
+            for (let j = 0; j < results.length; j++) {
+                const result = results[j];
+                if (result.status === "rejected") {
+                    console.warn("Failed to load prompt:", batch[j], result.reason);
+                    if (isSignedOutError(result.reason)) {
+                        setLibraryStatus(describeRequestError(result.reason), "import-validation-error");
+                        return;
+                    }
+                    continue;
+                }
+                libraryContent.set(batch[j], result.value);
+                const index = libraryPrompts.findIndex((prompt) => prompt.name === batch[j]);
+                if (index !== -1) libraryPrompts[index] = result.value;
+            }
+            updateLibraryModelFilter();
+            renderLibraryResults();
+        }
+        setLibraryStatus(`${libraryPrompts.length} prompts loaded.`, "import-validation-success");
+    } finally {
+        if (libraryContentSignal === request.signal) libraryContentSignal = null;
+    }
+}
+
+/**
+ * Lists the models used by the loaded prompts in the model filter, keeping the chosen model
+ */
+function updateLibraryModelFilter(): void {
+    const modelSelect = libraryDialogContainer?.querySelector(".library-model-filter") as HTMLSelectElement | null;
+    if (!modelSelect) return;
+
+    const models = new Set<string>();
+    for (const prompt of libraryPrompts) {
+        if (prompt.model) models.add(prompt.model);
+    }
+    const selected = modelSelect.value;
+    modelSelect.innerHTML = "";
+    modelSelect.appendChild(new Option("All models", ""));
+    for (const model of [...models].sort()) {
+        modelSelect.appendChild(new Option(model, model));
+    }
+    if (selected && !models.has(selected)) modelSelect.appendChild(new Option(selected, selected));
+    modelSelect.value = selected;
+}
+
+/**
+ * Gets the search and filters of the prompt library dialog
+ *
+ * @returns {object} The filter to pass to aiStudioExt.searchPromptLibrary
+ */
+function getLibraryFilter(): { query: string; model: string } {
+    const getValue = (selector: string) =>
+        (libraryDialogContainer?.querySelector(selector) as HTMLInputElement | HTMLSelectElement | null)?.value ?? "";
+    return {
+        query: getValue(".library-search").trim(),
+        model: getValue(".library-model-filter"),
+    };
+}
+
+/**
+ * Renders the loaded prompts that match the search and filters of the prompt library dialog
+ */
+function renderLibraryResults(): void {
+    const tbody = libraryDialogContainer?.querySelector(".library-table tbody") as HTMLElement | null;
+    const summary = libraryDialogContainer?.querySelector(".library-summary") as HTMLElement | null;
+    if (!tbody || !summary) return;
+
+    const filter = getLibraryFilter();
+    const matches: PromptLibraryItem[] = (window as any).aiStudioExt.searchPromptLibrary(libraryPrompts, filter);
+
+    tbody.innerHTML = "";
+    for (let i = 0; i < matches.length && i < LIBRARY_RESULT_LIMIT; i++) {
+        const prompt = matches[i];
+        const row = document.createElement("tr");
+        row.title = prompt.name;
+        row.addEventListener("click", () => openLibraryPrompt(prompt));
+
+        const titleCell = document.createElement("td");
+        const title = document.createElement("div");
+        title.textContent = prompt.title || "Untitled prompt";
+        titleCell.appendChild(title);
+        row.appendChild(titleCell);
+
+        const modelCell = document.createElement("td");
+        modelCell.textContent = prompt.model || (prompt.hasContent ? "Default" : "");
+        row.appendChild(modelCell);
+
+        const turnsCell = document.createElement("td");
+        turnsCell.className = "library-number";
+        turnsCell.textContent = prompt.hasContent ? String(prompt.turnCount) : "";
+        row.appendChild(turnsCell);
+
+        tbody.appendChild(row);
+    }
+
+    let text = `${matches.length} of ${libraryPrompts.length} prompts`;
+    if (matches.length > LIBRARY_RESULT_LIMIT) text += ` (showing the first ${LIBRARY_RESULT_LIMIT}, refine the search to see others)`;
+    let withoutContent = 0;
+    for (const prompt of libraryPrompts) {
+        if (!prompt.hasContent) withoutContent++;
+    }
+    if (filter.query && withoutContent > 0) {
+        text += `. ${withoutContent} prompts have not been read yet and are only searched by title and tags.`;
+    }
+    summary.textContent = text;
+}
+
+/**
+ * Opens a prompt of the library in place, without reloading the page
+ *
+ * @param {PromptLibraryItem} prompt - The prompt to open
+ */
+function openLibraryPrompt(prompt: PromptLibraryItem): void {
+    history.pushState({}, "", (window as any).aiStudioExt.getAccountPath(prompt.name));
+    // Dispatch a popstate event to trigger angular router to execute component
+    window.dispatchEvent(new PopStateEvent("popstate"));
+    closeLibraryDialog();
+}
+
+/**
+ * Describes a failed MakerSuite request for the user
+ *
+ * @param {any} error - The rejection of the request, usually a `MakerSuiteRpcError`
+ * @returns {string} The error message
+ */
+function describeRequestError(error: any): string {
+    if (isSignedOutError(error)) {
+        return "You are signed out of your Google account, or your session has expired. Sign in to AI Studio again, then retry.";
+    }
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Checks whether a MakerSuite request failed because the user is signed out
+ *
+ * @param {any} error - The rejection of the request
+ * @returns {boolean} True if the request was not authenticated
+ */
+function isSignedOutError(error: any): boolean {
+    return error?.name === "MakerSuiteRpcError" && error.failure === "auth";
+}
+
 /**
  * Fetches the incidents data from the AI Studio status API
  *
@@ -1542,7 +3668,7 @@ function closeDialog(): void {
  */
 async function fetchIncidentsData(): Promise<any> {
     try {
-        return JSON.parse(await (window as any).aiStudioExt.sendMakerSuiteRequest("ListIncidentsHistory", "POST", []));
+        return await (window as any).aiStudioExt.callMakerSuite("ListIncidentsHistory", []);
     } catch (error) {
         console.error("Failed to fetch incidents data:", error);
         return null;
@@ -1578,6 +3704,80 @@ function isIncidentUnresolved(statusUpdates: any[]): boolean {
     return latestUpdate[0] !== INCIDENT_STATUS.RESOLVED;
 }
 
+interface ImportFile {
+    name: string;
+    text?: string;
+    error?: string; // Why the file cannot be imported, if it could not be read
+    metadata?: PromptMetadata; // Overrides the title, description and tags stored in the file
+}
+
+interface BatchImportEntry {
+    source: ImportFile; // The file, kept to validate it again when the format is changed
+    fileName: string; // Path of the file, including its folder inside a zip archive
+    promptName: string;
+    metadata?: PromptMetadata; // The title, description and tags of the prompt to create
+    promptData: any | null; // The parsed prompt, or null if the file is not a valid prompt
+    selected: boolean; // Whether the prompt is imported; valid prompts can be left out in the list
+    status: BatchImportStatus;
+    message: string;
+    promptPath?: string; // URL path of the created prompt
+}
+
+// The title, description and tags of a prompt, as read by aiStudioExt.readPromptMetadata
+interface PromptMetadata {
+    title?: string;
+    description?: string;
+    tags?: string[];
+}
+
+// Model names and the Gemini models to use instead, as listed by aiStudioExt.getModelAliases
+type ModelAliases = { [model: string]: string };
+
+// A template variable found by aiStudioExt.findTemplateVariables
+interface TemplateVariable {
+    name: string;
+    defaultValue?: string; // From the prompt's "variables" block
+    description?: string;
+}
+
+// A diagnostic reported by aiStudioExt.diagnosePromptData
+interface ImportDiagnosticItem {
+    path: string; // JSON path of the field, e.g. "contents[0].parts[1]"; empty for the input as a whole
+    message: string;
+    line?: number; // 1-based position of the field in the text box, if known
+    column?: number;
+}
+
+interface ImportDiagnosticsReport {
+    prompt?: any[] | null; // The converted prompt, or null if it cannot be imported
+    errors: ImportDiagnosticItem[];
+    warnings: ImportDiagnosticItem[];
+    fieldChanges: (ImportDiagnosticItem & { change: "dropped" | "defaulted" })[];
+}
+
+// A prompt of the library, as summarized by aiStudioExt.loadPromptLibrary
+interface PromptLibraryItem {
+    name: string; // The "prompts/..." name of the prompt
+    title: string;
+    tags: string[];
+    model: string; // Without the "models/" prefix; empty if the prompt uses the default model
+    turnCount: number;
+    hasContent: boolean; // Whether the system instruction and turns were loaded
+    searchText: string;
+}
+
+type BatchImportStatus = "valid" | "warning" | "invalid" | "importing" | "imported" | "failed";
+
+// Icons shown next to each file of a batch import
+const BATCH_IMPORT_STATUS_ICONS: Record<BatchImportStatus, string> = {
+    valid: "check_circle",
+    warning: "warning",
+    invalid: "error",
+    importing: "progress_activity",
+    imported: "open_in_new",
+    failed: "error",
+};
+
 /**
  * Stores data about active incidents
  */